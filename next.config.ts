@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfkit lee sus fuentes (AFM) desde node_modules: no se puede bundlear
+  serverExternalPackages: ["pdfkit"],
 };
 
 export default nextConfig;
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "reservationExpiresAt" TIMESTAMP(3),
+ADD COLUMN     "stockReleasedAt" TIMESTAMP(3),
+ADD COLUMN     "stockReservedAt" TIMESTAMP(3);
+
+-- Los pedidos marcados "paid" por la ruta legacy ya descontaron stock:
+-- los marcamos como reservados para que una cancelación lo devuelva.
+UPDATE "public"."Order" SET "stockReservedAt" = "createdAt" WHERE "status"::text = 'paid';
+
+-- CreateIndex
+CREATE INDEX "Order_status_reservationExpiresAt_idx" ON "public"."Order"("status", "reservationExpiresAt");
@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "public"."OrderItem" ADD COLUMN     "sku" TEXT,
+ADD COLUMN     "variantName" TEXT;
+
+-- Backfill: snapshot de la variante y título legible ("Producto (XL)") en lugar del cuid
+UPDATE "public"."OrderItem" AS oi
+SET "variantName" = v."name",
+    "sku" = v."sku",
+    "title" = p."title" || ' (' || v."name" || ')'
+FROM "public"."ProductVariant" AS v
+JOIN "public"."Product" AS p ON p."id" = v."productId"
+WHERE oi."variantId" = v."id";
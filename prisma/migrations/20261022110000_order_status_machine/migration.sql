@@ -0,0 +1,49 @@
+-- CreateEnum (puede existir si la base se sincronizó con `prisma db push`)
+DO $$ BEGIN
+  CREATE TYPE "public"."OrderStatus" AS ENUM ('PENDING', 'CONFIRMED', 'PREPARING', 'READY', 'DELIVERED', 'CANCELLED');
+EXCEPTION WHEN duplicate_object THEN NULL;
+END $$;
+
+-- AlterTable: Order.status pasa de TEXT al enum, mapeando los valores legacy
+-- (pending → PENDING, paid → CONFIRMED, canceled → CANCELLED)
+ALTER TABLE "public"."Order" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "public"."Order" ALTER COLUMN "status" TYPE "public"."OrderStatus" USING (
+  CASE lower("status"::text)
+    WHEN 'pending' THEN 'PENDING'
+    WHEN 'paid' THEN 'CONFIRMED'
+    WHEN 'canceled' THEN 'CANCELLED'
+    WHEN 'cancelled' THEN 'CANCELLED'
+    WHEN 'confirmed' THEN 'CONFIRMED'
+    WHEN 'preparing' THEN 'PREPARING'
+    WHEN 'ready' THEN 'READY'
+    WHEN 'delivered' THEN 'DELIVERED'
+    ELSE 'PENDING'
+  END
+)::"public"."OrderStatus";
+ALTER TABLE "public"."Order" ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- CreateTable
+CREATE TABLE "public"."OrderStatusHistory" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "fromStatus" "public"."OrderStatus",
+    "toStatus" "public"."OrderStatus" NOT NULL,
+    "changedById" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderStatusHistory_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: un registro inicial con el estado actual de cada pedido existente
+INSERT INTO "public"."OrderStatusHistory" ("id", "orderId", "fromStatus", "toStatus", "reason", "createdAt")
+SELECT 'osh_' || "id", "id", NULL, "status", 'MIGRATED', "createdAt" FROM "public"."Order";
+
+-- CreateIndex
+CREATE INDEX "OrderStatusHistory_orderId_createdAt_idx" ON "public"."OrderStatusHistory"("orderId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
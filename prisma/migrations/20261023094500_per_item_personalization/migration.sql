@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "public"."OrderItemPersonalization" (
+    "id" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "unitIndex" INTEGER NOT NULL,
+    "name" TEXT,
+    "number" INTEGER,
+    "patches" TEXT[],
+    "price" INTEGER NOT NULL,
+
+    CONSTRAINT "OrderItemPersonalization_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "extrasTotal" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: la personalización a nivel pedido pasa a la 1ra unidad del 1er ítem
+UPDATE "public"."Order" SET "extrasTotal" = GREATEST("totalPrice" - "subtotal", 0);
+
+INSERT INTO "public"."OrderItemPersonalization" ("id", "orderItemId", "unitIndex", "name", "number", "patches", "price")
+SELECT 'oip_' || first_item."id",
+       first_item."id",
+       0,
+       upper(o."customName"),
+       o."customNumber",
+       CASE WHEN o."hasPatch" THEN ARRAY['PATCH'] ELSE ARRAY[]::TEXT[] END,
+       o."extrasTotal"
+FROM "public"."Order" AS o
+JOIN LATERAL (
+    SELECT oi."id" FROM "public"."OrderItem" AS oi
+    WHERE oi."orderId" = o."id"
+    ORDER BY oi."id"
+    LIMIT 1
+) AS first_item ON TRUE
+WHERE o."customName" IS NOT NULL OR o."customNumber" IS NOT NULL OR o."hasPatch";
+
+-- AlterTable
+ALTER TABLE "public"."Order" DROP COLUMN "customName",
+DROP COLUMN "customNumber",
+DROP COLUMN "hasPatch";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderItemPersonalization_orderItemId_unitIndex_key" ON "public"."OrderItemPersonalization"("orderItemId", "unitIndex");
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderItemPersonalization" ADD CONSTRAINT "OrderItemPersonalization_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "public"."PersonalizationKind" AS ENUM ('NAME', 'NUMBER', 'PATCH', 'SPONSOR');
+
+-- CreateTable
+CREATE TABLE "public"."PersonalizationOption" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "kind" "public"."PersonalizationKind" NOT NULL,
+    "label" TEXT NOT NULL,
+    "price" INTEGER NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "leagues" TEXT[],
+    "qualities" "public"."ProductQuality"[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PersonalizationOption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PersonalizationOption_code_key" ON "public"."PersonalizationOption"("code");
+
+-- CreateIndex
+CREATE INDEX "PersonalizationOption_kind_active_idx" ON "public"."PersonalizationOption"("kind", "active");
+
+-- Seed: los precios que estaban fijos en POST /api/orders
+INSERT INTO "public"."PersonalizationOption" ("id", "code", "kind", "label", "price", "leagues", "qualities", "updatedAt") VALUES
+    ('popt_name', 'NAME', 'NAME', 'Nombre', 15000, ARRAY[]::TEXT[], ARRAY[]::"public"."ProductQuality"[], CURRENT_TIMESTAMP),
+    ('popt_number', 'NUMBER', 'NUMBER', 'Número', 10000, ARRAY[]::TEXT[], ARRAY[]::"public"."ProductQuality"[], CURRENT_TIMESTAMP),
+    ('popt_patch', 'PATCH', 'PATCH', 'Parche', 20000, ARRAY[]::TEXT[], ARRAY[]::"public"."ProductQuality"[], CURRENT_TIMESTAMP);
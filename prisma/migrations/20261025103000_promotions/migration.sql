@@ -0,0 +1,64 @@
+-- CreateEnum
+CREATE TYPE "public"."PromotionType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT', 'BUY_X_GET_Y');
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "discountTotal" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."Promotion" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT,
+    "type" "public"."PromotionType" NOT NULL,
+    "value" INTEGER NOT NULL DEFAULT 0,
+    "buyQuantity" INTEGER,
+    "getQuantity" INTEGER,
+    "leagues" TEXT[],
+    "kits" "public"."KitType"[],
+    "qualities" "public"."ProductQuality"[],
+    "productIds" TEXT[],
+    "startsAt" TIMESTAMP(3),
+    "endsAt" TIMESTAMP(3),
+    "maxRedemptions" INTEGER,
+    "maxPerPhone" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Promotion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PromotionRedemption" (
+    "id" TEXT NOT NULL,
+    "promotionId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "code" TEXT,
+    "description" TEXT NOT NULL,
+    "phone" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromotionRedemption_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Promotion_code_key" ON "public"."Promotion"("code");
+
+-- CreateIndex
+CREATE INDEX "Promotion_active_code_idx" ON "public"."Promotion"("active", "code");
+
+-- CreateIndex
+CREATE INDEX "PromotionRedemption_promotionId_phone_idx" ON "public"."PromotionRedemption"("promotionId", "phone");
+
+-- CreateIndex
+CREATE INDEX "PromotionRedemption_orderId_idx" ON "public"."PromotionRedemption"("orderId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromotionRedemption_promotionId_orderId_key" ON "public"."PromotionRedemption"("promotionId", "orderId");
+
+-- AddForeignKey
+ALTER TABLE "public"."PromotionRedemption" ADD CONSTRAINT "PromotionRedemption_promotionId_fkey" FOREIGN KEY ("promotionId") REFERENCES "public"."Promotion"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PromotionRedemption" ADD CONSTRAINT "PromotionRedemption_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,34 @@
+-- CreateEnum
+CREATE TYPE "public"."DeliveryZoneType" AS ENUM ('RADIUS', 'POLYGON');
+
+-- CreateEnum
+CREATE TYPE "public"."DeliveryMethod" AS ENUM ('DELIVERY', 'PICKUP');
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "deliveryFee" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "deliveryMethod" "public"."DeliveryMethod" NOT NULL DEFAULT 'DELIVERY',
+ADD COLUMN     "deliveryZoneId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."DeliveryZone" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "public"."DeliveryZoneType" NOT NULL,
+    "minKm" DOUBLE PRECISION,
+    "maxKm" DOUBLE PRECISION,
+    "polygon" JSONB,
+    "fee" INTEGER NOT NULL,
+    "etaMinutes" INTEGER,
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeliveryZone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeliveryZone_active_priority_idx" ON "public"."DeliveryZone"("active", "priority");
+
+-- AddForeignKey
+ALTER TABLE "public"."Order" ADD CONSTRAINT "Order_deliveryZoneId_fkey" FOREIGN KEY ("deliveryZoneId") REFERENCES "public"."DeliveryZone"("id") ON DELETE SET NULL ON UPDATE CASCADE;
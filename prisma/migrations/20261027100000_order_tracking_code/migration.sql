@@ -0,0 +1,42 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "trackingCode" TEXT;
+
+-- Backfill: mismo formato que generateTrackingCode (12 caracteres del
+-- alfabeto sin 0/O/1/I/L) con bytes criptográficamente seguros. Los bytes
+-- >= 248 se descartan para que 31 símbolos salgan con igual probabilidad.
+DO $$
+DECLARE
+  alphabet CONSTANT text := '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+  o record;
+  bytes bytea;
+  code text;
+  b int;
+  i int;
+BEGIN
+  FOR o IN SELECT "id" FROM "public"."Order" WHERE "trackingCode" IS NULL LOOP
+    LOOP
+      code := '';
+      WHILE length(code) < 12 LOOP
+        bytes := gen_random_bytes(16);
+        FOR i IN 0..15 LOOP
+          b := get_byte(bytes, i);
+          IF b < 248 AND length(code) < 12 THEN
+            code := code || substr(alphabet, b % 31 + 1, 1);
+          END IF;
+        END LOOP;
+      END LOOP;
+      EXIT WHEN NOT EXISTS (
+        SELECT 1 FROM "public"."Order" WHERE "trackingCode" = code
+      );
+    END LOOP;
+    UPDATE "public"."Order" SET "trackingCode" = code WHERE "id" = o."id";
+  END LOOP;
+END $$;
+
+ALTER TABLE "public"."Order" ALTER COLUMN "trackingCode" SET NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Order_trackingCode_key" ON "public"."Order"("trackingCode");
@@ -0,0 +1,74 @@
+-- CreateEnum
+CREATE TYPE "public"."PaymentMethod" AS ENUM ('CASH', 'BANK_TRANSFER', 'QR', 'CARD', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "public"."OrderPayment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "method" "public"."PaymentMethod" NOT NULL,
+    "reference" TEXT,
+    "receiptUrl" TEXT,
+    "receiptPublicId" TEXT,
+    "transactionId" TEXT,
+    "recordedById" TEXT,
+    "paidAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "voidedAt" TIMESTAMP(3),
+    "voidReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderPayment_pkey" PRIMARY KEY ("id")
+);
+
+-- Las columnas de seña/saldo se crearon con `prisma db push` y pueden no existir
+ALTER TABLE "public"."Order" ADD COLUMN IF NOT EXISTS "depositAmount" INTEGER,
+ADD COLUMN IF NOT EXISTS "depositPaidAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "depositTransactionId" TEXT,
+ADD COLUMN IF NOT EXISTS "balancePaidAt" TIMESTAMP(3),
+ADD COLUMN IF NOT EXISTS "balanceTransactionId" TEXT;
+
+-- Backfill: la seña pasa a ser un pago (medio desconocido → OTHER)
+INSERT INTO "public"."OrderPayment" ("id", "orderId", "amount", "method", "reference", "transactionId", "paidAt", "createdAt")
+SELECT 'opay_dep_' || o."id", o."id", o."depositAmount", 'OTHER', 'Seña', t."id",
+       COALESCE(o."depositPaidAt", t."occurredAt", o."createdAt"), COALESCE(o."depositPaidAt", o."createdAt")
+FROM "public"."Order" o
+LEFT JOIN "public"."Transaction" t ON t."id" = o."depositTransactionId"
+WHERE o."depositAmount" > 0;
+
+-- Backfill: el saldo cobrado al entregar (monto de su transacción si existe)
+INSERT INTO "public"."OrderPayment" ("id", "orderId", "amount", "method", "reference", "transactionId", "paidAt", "createdAt")
+SELECT 'opay_bal_' || o."id", o."id",
+       COALESCE(t."amount", o."totalPrice" - COALESCE(o."depositAmount", 0)), 'OTHER', 'Saldo', t."id",
+       COALESCE(o."balancePaidAt", t."occurredAt", o."createdAt"), COALESCE(o."balancePaidAt", o."createdAt")
+FROM "public"."Order" o
+LEFT JOIN "public"."Transaction" t ON t."id" = o."balanceTransactionId"
+WHERE (o."balancePaidAt" IS NOT NULL OR o."balanceTransactionId" IS NOT NULL)
+  AND COALESCE(t."amount", o."totalPrice" - COALESCE(o."depositAmount", 0)) > 0;
+
+-- DropIndex
+DROP INDEX IF EXISTS "public"."Order_depositTransactionId_key";
+
+-- DropIndex
+DROP INDEX IF EXISTS "public"."Order_balanceTransactionId_key";
+
+-- AlterTable
+ALTER TABLE "public"."Order" DROP COLUMN "depositAmount",
+DROP COLUMN "depositPaidAt",
+DROP COLUMN "depositTransactionId",
+DROP COLUMN "balancePaidAt",
+DROP COLUMN "balanceTransactionId";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrderPayment_transactionId_key" ON "public"."OrderPayment"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "OrderPayment_orderId_idx" ON "public"."OrderPayment"("orderId");
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderPayment" ADD CONSTRAINT "OrderPayment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderPayment" ADD CONSTRAINT "OrderPayment_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderPayment" ADD CONSTRAINT "OrderPayment_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
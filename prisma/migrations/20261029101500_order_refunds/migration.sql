@@ -0,0 +1,75 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3),
+ADD COLUMN     "refundedTotal" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: fecha y motivo de cancelación desde el historial
+UPDATE "public"."Order" o
+SET "cancelledAt" = h."createdAt", "cancelReason" = h."reason"
+FROM (
+  SELECT DISTINCT ON ("orderId") "orderId", "createdAt", "reason"
+  FROM "public"."OrderStatusHistory"
+  WHERE "toStatus" = 'CANCELLED'
+  ORDER BY "orderId", "createdAt" DESC
+) h
+WHERE h."orderId" = o."id" AND o."status" = 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "public"."OrderItem" ADD COLUMN     "refundedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."OrderPayment" ADD COLUMN     "refundedAmount" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."Transaction" ADD COLUMN     "refundId" TEXT,
+ADD COLUMN     "reversalOfId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."OrderRefund" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "reason" TEXT NOT NULL,
+    "restocked" BOOLEAN NOT NULL DEFAULT false,
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrderRefund_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."OrderRefundItem" (
+    "id" TEXT NOT NULL,
+    "refundId" TEXT NOT NULL,
+    "orderItemId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+
+    CONSTRAINT "OrderRefundItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrderRefund_orderId_idx" ON "public"."OrderRefund"("orderId");
+
+-- CreateIndex
+CREATE INDEX "OrderRefundItem_orderItemId_idx" ON "public"."OrderRefundItem"("orderItemId");
+
+-- CreateIndex
+CREATE INDEX "Transaction_reversalOfId_idx" ON "public"."Transaction"("reversalOfId");
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderRefund" ADD CONSTRAINT "OrderRefund_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderRefund" ADD CONSTRAINT "OrderRefund_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderRefundItem" ADD CONSTRAINT "OrderRefundItem_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "public"."OrderRefund"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderRefundItem" ADD CONSTRAINT "OrderRefundItem_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."OrderItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Transaction" ADD CONSTRAINT "Transaction_reversalOfId_fkey" FOREIGN KEY ("reversalOfId") REFERENCES "public"."Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Transaction" ADD CONSTRAINT "Transaction_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "public"."OrderRefund"("id") ON DELETE SET NULL ON UPDATE CASCADE;
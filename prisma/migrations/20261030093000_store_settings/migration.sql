@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "public"."StoreSettings" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "name" TEXT NOT NULL,
+    "legalName" TEXT,
+    "ruc" TEXT,
+    "address" TEXT,
+    "phone" TEXT,
+    "email" TEXT,
+    "website" TEXT,
+    "receiptFooter" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StoreSettings_pkey" PRIMARY KEY ("id")
+);
+
+-- Seed: fila única con el nombre de la tienda
+INSERT INTO "public"."StoreSettings" ("id", "name", "receiptFooter", "updatedAt")
+VALUES ('default', 'Hincha Store', '¡Gracias por tu compra!', CURRENT_TIMESTAMP);
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."MessageTemplate" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "MessageTemplate_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MessageTemplate_key_key" ON "public"."MessageTemplate"("key");
+
+-- Seed: plantillas iniciales (editables desde el admin)
+INSERT INTO "public"."MessageTemplate" ("id", "key", "label", "body", "updatedAt") VALUES
+    ('mtpl_confirmed', 'ORDER_CONFIRMED', 'Pedido confirmado',
+     E'¡Hola {{nombre}}! 👋 Confirmamos tu pedido {{pedido}} en {{tienda}}.\n\n{{items}}\n\nTotal: {{total}}\nPagado: {{pagado}}\nSaldo: {{saldo}}\n\nPodés seguirlo con el código {{codigo}}. ¡Gracias!',
+     CURRENT_TIMESTAMP),
+    ('mtpl_ready', 'ORDER_READY', 'Listo para entregar',
+     E'¡Hola {{nombre}}! Tu pedido {{pedido}} ya está listo 🎉\n\n{{entrega}}\nSaldo a abonar: {{saldo}}\n\n¡Te esperamos!',
+     CURRENT_TIMESTAMP),
+    ('mtpl_balance', 'BALANCE_REMINDER', 'Recordatorio de saldo',
+     E'Hola {{nombre}}, te recordamos que tu pedido {{pedido}} tiene un saldo pendiente de {{saldo}} (total {{total}}, pagado {{pagado}}). ¡Gracias!',
+     CURRENT_TIMESTAMP);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."OrderStatusHistory" ADD COLUMN     "details" JSONB;
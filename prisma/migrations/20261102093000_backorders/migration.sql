@@ -0,0 +1,17 @@
+-- AlterTable
+ALTER TABLE "public"."Order" ADD COLUMN     "depositRequired" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."OrderItem" ADD COLUMN     "backorderLeadDays" INTEGER,
+ADD COLUMN     "backorderedQuantity" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."Product" ADD COLUMN     "allowBackorder" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "backorderLeadDays" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."ProductVariant" ADD COLUMN     "allowBackorder" BOOLEAN;
+
+-- AlterTable
+ALTER TABLE "public"."StoreSettings" ADD COLUMN     "backorderDepositPercent" INTEGER NOT NULL DEFAULT 50,
+ADD COLUMN     "backorderLeadDays" INTEGER NOT NULL DEFAULT 15;
@@ -0,0 +1,108 @@
+-- CreateEnum
+CREATE TYPE "public"."PurchaseBatchStatus" AS ENUM ('DRAFT', 'ORDERED', 'RECEIVED', 'CANCELLED');
+
+-- CreateEnum
+CREATE TYPE "public"."PurchaseCostKind" AS ENUM ('SUPPLIER', 'SHIPPING', 'CUSTOMS', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "public"."Supplier" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "contact" TEXT,
+    "phone" TEXT,
+    "email" TEXT,
+    "website" TEXT,
+    "notes" TEXT,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Supplier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PurchaseBatch" (
+    "id" TEXT NOT NULL,
+    "supplierId" TEXT NOT NULL,
+    "reference" TEXT,
+    "status" "public"."PurchaseBatchStatus" NOT NULL DEFAULT 'DRAFT',
+    "notes" TEXT,
+    "orderedAt" TIMESTAMP(3),
+    "receivedAt" TIMESTAMP(3),
+    "createdById" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PurchaseBatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PurchaseBatchItem" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "supplierPrice" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "landedUnitCost" INTEGER,
+
+    CONSTRAINT "PurchaseBatchItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."PurchaseBatchCost" (
+    "id" TEXT NOT NULL,
+    "batchId" TEXT NOT NULL,
+    "kind" "public"."PurchaseCostKind" NOT NULL,
+    "description" TEXT,
+    "currency" TEXT NOT NULL DEFAULT 'PYG',
+    "amount" DOUBLE PRECISION NOT NULL,
+    "exchangeRate" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "amountGs" INTEGER NOT NULL,
+    "transactionId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PurchaseBatchCost_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Supplier_name_key" ON "public"."Supplier"("name");
+
+-- CreateIndex
+CREATE INDEX "PurchaseBatch_supplierId_idx" ON "public"."PurchaseBatch"("supplierId");
+
+-- CreateIndex
+CREATE INDEX "PurchaseBatch_status_idx" ON "public"."PurchaseBatch"("status");
+
+-- CreateIndex
+CREATE INDEX "PurchaseBatchItem_variantId_idx" ON "public"."PurchaseBatchItem"("variantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PurchaseBatchItem_batchId_variantId_key" ON "public"."PurchaseBatchItem"("batchId", "variantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PurchaseBatchCost_transactionId_key" ON "public"."PurchaseBatchCost"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "PurchaseBatchCost_batchId_idx" ON "public"."PurchaseBatchCost"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "public"."PurchaseBatch" ADD CONSTRAINT "PurchaseBatch_supplierId_fkey" FOREIGN KEY ("supplierId") REFERENCES "public"."Supplier"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PurchaseBatch" ADD CONSTRAINT "PurchaseBatch_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PurchaseBatchItem" ADD CONSTRAINT "PurchaseBatchItem_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "public"."PurchaseBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PurchaseBatchItem" ADD CONSTRAINT "PurchaseBatchItem_productId_fkey" FOREIGN KEY ("productId") REFERENCES "public"."Product"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PurchaseBatchItem" ADD CONSTRAINT "PurchaseBatchItem_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "public"."ProductVariant"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PurchaseBatchCost" ADD CONSTRAINT "PurchaseBatchCost_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "public"."PurchaseBatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."PurchaseBatchCost" ADD CONSTRAINT "PurchaseBatchCost_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,52 @@
+-- CreateEnum
+CREATE TYPE "public"."DeliveryAssignmentStatus" AS ENUM ('ASSIGNED', 'PICKED_UP', 'DELIVERED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "public"."DeliveryAssignment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "courierId" TEXT NOT NULL,
+    "assignedById" TEXT,
+    "status" "public"."DeliveryAssignmentStatus" NOT NULL DEFAULT 'ASSIGNED',
+    "sequence" INTEGER,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "pickedUpAt" TIMESTAMP(3),
+    "deliveredAt" TIMESTAMP(3),
+    "cashCollected" INTEGER NOT NULL DEFAULT 0,
+    "notes" TEXT,
+
+    CONSTRAINT "DeliveryAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."DeliveryProofImage" (
+    "id" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "imageUrl" TEXT NOT NULL,
+    "imagePublicId" TEXT,
+    "order" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeliveryProofImage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DeliveryAssignment_courierId_status_idx" ON "public"."DeliveryAssignment"("courierId", "status");
+
+-- CreateIndex
+CREATE INDEX "DeliveryAssignment_orderId_idx" ON "public"."DeliveryAssignment"("orderId");
+
+-- CreateIndex
+CREATE INDEX "DeliveryProofImage_assignmentId_idx" ON "public"."DeliveryProofImage"("assignmentId");
+
+-- AddForeignKey
+ALTER TABLE "public"."DeliveryAssignment" ADD CONSTRAINT "DeliveryAssignment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DeliveryAssignment" ADD CONSTRAINT "DeliveryAssignment_courierId_fkey" FOREIGN KEY ("courierId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DeliveryAssignment" ADD CONSTRAINT "DeliveryAssignment_assignedById_fkey" FOREIGN KEY ("assignedById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."DeliveryProofImage" ADD CONSTRAINT "DeliveryProofImage_assignmentId_fkey" FOREIGN KEY ("assignmentId") REFERENCES "public"."DeliveryAssignment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
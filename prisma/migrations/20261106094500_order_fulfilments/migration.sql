@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "public"."OrderItem" ADD COLUMN     "fulfilmentId" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."OrderStatusHistory" ADD COLUMN     "fulfilmentId" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."Fulfilment" (
+    "id" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "status" "public"."OrderStatus" NOT NULL DEFAULT 'PENDING',
+    "subtotal" INTEGER NOT NULL DEFAULT 0,
+    "extrasTotal" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Fulfilment_pkey" PRIMARY KEY ("id")
+);
+
+-- Backfill: un sub-pedido por vendedor en cada pedido existente, con el
+-- estado actual del pedido
+INSERT INTO "public"."Fulfilment" ("id", "orderId", "sellerId", "status", "subtotal", "extrasTotal", "createdAt", "updatedAt")
+SELECT 'ful_' || md5(o."id" || p."ownerId"), o."id", p."ownerId", o."status",
+       SUM(i."price" * i."quantity"),
+       COALESCE(SUM(x."extras"), 0),
+       o."createdAt", CURRENT_TIMESTAMP
+FROM "public"."OrderItem" i
+JOIN "public"."Order" o ON o."id" = i."orderId"
+JOIN "public"."Product" p ON p."id" = i."productId"
+LEFT JOIN (
+  SELECT "orderItemId", SUM("price") AS "extras"
+  FROM "public"."OrderItemPersonalization"
+  GROUP BY "orderItemId"
+) x ON x."orderItemId" = i."id"
+GROUP BY o."id", p."ownerId";
+
+UPDATE "public"."OrderItem" i
+SET "fulfilmentId" = 'ful_' || md5(i."orderId" || p."ownerId")
+FROM "public"."Product" p
+WHERE p."id" = i."productId";
+
+-- CreateIndex
+CREATE INDEX "Fulfilment_sellerId_status_idx" ON "public"."Fulfilment"("sellerId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Fulfilment_orderId_sellerId_key" ON "public"."Fulfilment"("orderId", "sellerId");
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderStatusHistory" ADD CONSTRAINT "OrderStatusHistory_fulfilmentId_fkey" FOREIGN KEY ("fulfilmentId") REFERENCES "public"."Fulfilment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Fulfilment" ADD CONSTRAINT "Fulfilment_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Fulfilment" ADD CONSTRAINT "Fulfilment_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."OrderItem" ADD CONSTRAINT "OrderItem_fulfilmentId_fkey" FOREIGN KEY ("fulfilmentId") REFERENCES "public"."Fulfilment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
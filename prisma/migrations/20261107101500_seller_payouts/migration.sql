@@ -0,0 +1,91 @@
+-- CreateEnum
+CREATE TYPE "public"."CommissionKind" AS ENUM ('PERCENT', 'FIXED');
+
+-- CreateEnum
+CREATE TYPE "public"."SellerLedgerKind" AS ENUM ('SALE', 'COMMISSION', 'REFUND');
+
+-- AlterTable
+ALTER TABLE "public"."StoreSettings" ADD COLUMN     "sellerCommissionPercent" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "public"."CommissionRule" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "quality" "public"."ProductQuality",
+    "kind" "public"."CommissionKind" NOT NULL,
+    "value" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CommissionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."SellerLedgerEntry" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "kind" "public"."SellerLedgerKind" NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 0,
+    "description" TEXT NOT NULL,
+    "orderId" TEXT,
+    "orderItemId" TEXT,
+    "payoutId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SellerLedgerEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."Payout" (
+    "id" TEXT NOT NULL,
+    "sellerId" TEXT NOT NULL,
+    "periodFrom" TIMESTAMP(3),
+    "periodTo" TIMESTAMP(3) NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "transactionId" TEXT,
+    "createdById" TEXT,
+    "notes" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Payout_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CommissionRule_sellerId_idx" ON "public"."CommissionRule"("sellerId");
+
+-- CreateIndex
+CREATE INDEX "SellerLedgerEntry_sellerId_payoutId_idx" ON "public"."SellerLedgerEntry"("sellerId", "payoutId");
+
+-- CreateIndex
+CREATE INDEX "SellerLedgerEntry_orderItemId_idx" ON "public"."SellerLedgerEntry"("orderItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Payout_transactionId_key" ON "public"."Payout"("transactionId");
+
+-- CreateIndex
+CREATE INDEX "Payout_sellerId_createdAt_idx" ON "public"."Payout"("sellerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "public"."CommissionRule" ADD CONSTRAINT "CommissionRule_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "public"."User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SellerLedgerEntry" ADD CONSTRAINT "SellerLedgerEntry_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SellerLedgerEntry" ADD CONSTRAINT "SellerLedgerEntry_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "public"."Order"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SellerLedgerEntry" ADD CONSTRAINT "SellerLedgerEntry_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "public"."OrderItem"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."SellerLedgerEntry" ADD CONSTRAINT "SellerLedgerEntry_payoutId_fkey" FOREIGN KEY ("payoutId") REFERENCES "public"."Payout"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Payout" ADD CONSTRAINT "Payout_sellerId_fkey" FOREIGN KEY ("sellerId") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Payout" ADD CONSTRAINT "Payout_transactionId_fkey" FOREIGN KEY ("transactionId") REFERENCES "public"."Transaction"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Payout" ADD CONSTRAINT "Payout_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "unaccent";
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- unaccent() es STABLE: para usarla en columnas generadas e índices hace
+-- falta un envoltorio IMMUTABLE con el diccionario fijo
+CREATE OR REPLACE FUNCTION "public"."immutable_unaccent"(text)
+  RETURNS text
+  LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT
+AS $$ SELECT "public"."unaccent"('"public"."unaccent"'::regdictionary, $1) $$;
+
+-- AlterTable
+ALTER TABLE "public"."Product" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', "public"."immutable_unaccent"(coalesce("title", ''))), 'A') ||
+    setweight(to_tsvector('simple', "public"."immutable_unaccent"(coalesce("league", '') || ' ' || coalesce("seasonLabel", ''))), 'B') ||
+    setweight(to_tsvector('simple', "public"."immutable_unaccent"(coalesce("description", ''))), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "Product_searchVector_idx" ON "public"."Product" USING GIN ("searchVector");
+
+-- CreateIndex
+CREATE INDEX "Product_title_trgm_idx" ON "public"."Product" USING GIN (lower("public"."immutable_unaccent"("title")) gin_trgm_ops);
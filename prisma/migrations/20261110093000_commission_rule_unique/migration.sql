@@ -0,0 +1,13 @@
+-- Una regla por (vendedor, calidad): si hubiera duplicados, queda la más nueva
+DELETE FROM "public"."CommissionRule" r
+USING "public"."CommissionRule" newer
+WHERE r."sellerId" = newer."sellerId"
+  AND r."quality" IS NOT DISTINCT FROM newer."quality"
+  AND (r."createdAt", r."id") < (newer."createdAt", newer."id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CommissionRule_sellerId_quality_key" ON "public"."CommissionRule"("sellerId", "quality");
+
+-- Postgres trata los NULL como distintos: la regla general (sin calidad)
+-- necesita su propio índice parcial (Prisma no lo puede declarar)
+CREATE UNIQUE INDEX "CommissionRule_sellerId_general_key" ON "public"."CommissionRule"("sellerId") WHERE "quality" IS NULL;
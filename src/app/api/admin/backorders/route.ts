@@ -0,0 +1,128 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { OPEN_BACKORDER_STATUSES } from "@/lib/backorders";
+import { parseOrderStatus } from "@/lib/orderStatus";
+import { ACTIVE_PAYMENT, summarizePayments } from "@/lib/payments";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+type SizeGroup = {
+  variantId: string | null;
+  size: string | null;
+  quantity: number;
+  orders: Array<{
+    orderId: string;
+    trackingCode: string;
+    status: string;
+    quantity: number;
+    depositPaid: boolean;
+    dueAt: Date | null; // fecha prometida al cliente
+  }>;
+};
+
+// GET /api/admin/backorders - Unidades encargadas a comprar, por producto y talle
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { searchParams } = new URL(req.url);
+    const status = parseOrderStatus(searchParams.get("status") || "");
+    const statuses = OPEN_BACKORDER_STATUSES.filter((s) => !status || s === status);
+
+    const lines = await prisma.orderItem.findMany({
+      where: {
+        backorderedQuantity: { gt: 0 },
+        order: { status: { in: statuses } },
+      },
+      orderBy: { order: { createdAt: "asc" } },
+      select: {
+        variantId: true,
+        variantName: true,
+        backorderedQuantity: true,
+        backorderLeadDays: true,
+        product: {
+          select: {
+            id: true,
+            title: true,
+            imageUrl: true,
+            purchaseUrl: true,
+            purchasePrice: true,
+          },
+        },
+        order: {
+          select: {
+            id: true,
+            trackingCode: true,
+            status: true,
+            createdAt: true,
+            totalPrice: true,
+            depositRequired: true,
+            payments: { where: ACTIVE_PAYMENT, select: { amount: true } },
+          },
+        },
+      },
+    });
+
+    const products = new Map<
+      string,
+      (typeof lines)[number]["product"] & { quantity: number; sizes: SizeGroup[] }
+    >();
+    for (const line of lines) {
+      let product = products.get(line.product.id);
+      if (!product) {
+        product = { ...line.product, quantity: 0, sizes: [] };
+        products.set(line.product.id, product);
+      }
+      let size = product.sizes.find((s) => s.variantId === line.variantId);
+      if (!size) {
+        size = {
+          variantId: line.variantId,
+          size: line.variantName,
+          quantity: 0,
+          orders: [],
+        };
+        product.sizes.push(size);
+      }
+
+      const { paidTotal } = summarizePayments(
+        line.order.totalPrice,
+        line.order.payments
+      );
+      product.quantity += line.backorderedQuantity;
+      size.quantity += line.backorderedQuantity;
+      size.orders.push({
+        orderId: line.order.id,
+        trackingCode: line.order.trackingCode,
+        status: line.order.status,
+        quantity: line.backorderedQuantity,
+        depositPaid: paidTotal >= line.order.depositRequired,
+        dueAt:
+          line.backorderLeadDays !== null
+            ? new Date(
+                line.order.createdAt.getTime() +
+                  line.backorderLeadDays * 24 * 60 * 60 * 1000
+              )
+            : null,
+      });
+    }
+
+    const items = [...products.values()].sort((a, b) => b.quantity - a.quantity);
+    return new Response(
+      JSON.stringify({
+        items,
+        totalUnits: items.reduce((sum, p) => sum + p.quantity, 0),
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
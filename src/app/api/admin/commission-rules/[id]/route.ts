@@ -0,0 +1,88 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// El vendedor y la calidad no cambian: para eso se borra y se crea otra
+const UpdateSchema = z.object({
+  kind: z.enum(["PERCENT", "FIXED"]).optional(),
+  value: z.coerce.number().int().min(0).optional(),
+});
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const data = UpdateSchema.parse(await req.json());
+
+    const existing = await prisma.commissionRule.findUnique({ where: { id } });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    const kind = data.kind ?? existing.kind;
+    const value = data.value ?? existing.value;
+    if (kind === "PERCENT" && value > 100) {
+      return new Response(
+        JSON.stringify({
+          error: "BAD_REQUEST",
+          message: "El porcentaje va de 0 a 100",
+        }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    // Los movimientos ya acreditados conservan la comisión con que se hicieron
+    const updated = await prisma.commissionRule.update({
+      where: { id },
+      data: { kind, value },
+    });
+    return new Response(
+      JSON.stringify(updated),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const { count } = await prisma.commissionRule.deleteMany({ where: { id } });
+    if (count === 0) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
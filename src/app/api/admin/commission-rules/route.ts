@@ -0,0 +1,96 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { CommissionRuleFields } from "@/lib/commissions";
+import { Prisma } from "@prisma/client";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/admin/commission-rules - Reglas de comisión (?sellerId=...)
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { searchParams } = new URL(req.url);
+    const sellerId = searchParams.get("sellerId") || undefined;
+
+    const items = await prisma.commissionRule.findMany({
+      where: { sellerId },
+      orderBy: [{ sellerId: "asc" }, { quality: "asc" }],
+      include: { seller: { select: { id: true, name: true, email: true } } },
+    });
+
+    return new Response(
+      JSON.stringify({ items }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/commission-rules - Una regla por vendedor y calidad (null = general)
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const data = CommissionRuleFields.parse(await req.json());
+
+    const seller = await prisma.user.findUnique({
+      where: { id: data.sellerId },
+      select: { role: true },
+    });
+    if (seller?.role !== "seller") {
+      return new Response(
+        JSON.stringify({ error: "SELLER_NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    const existing = await prisma.commissionRule.findFirst({
+      where: { sellerId: data.sellerId, quality: data.quality },
+      select: { id: true },
+    });
+    if (existing) {
+      return new Response(
+        JSON.stringify({
+          error: "CONFLICT",
+          message: "El vendedor ya tiene una regla para esa calidad.",
+          id: existing.id,
+        }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+
+    const created = await prisma.commissionRule.create({ data });
+    return new Response(
+      JSON.stringify(created),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    // Dos altas simultáneas: el índice único deja pasar sólo una
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return new Response(
+        JSON.stringify({
+          error: "CONFLICT",
+          message: "El vendedor ya tiene una regla para esa calidad.",
+        }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -42,6 +42,7 @@ export async function GET(req: NextRequest) {
     const expenses = await prisma.transaction.findMany({
       where: {
         type: "EXPENSE",
+        refundId: null, // los reembolsos ya se restan del ingreso neto
         occurredAt: { gte: startDate, lte: now },
       },
       select: {
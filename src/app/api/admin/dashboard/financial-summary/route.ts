@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -61,16 +62,17 @@ export async function GET(req: NextRequest) {
     // Obtener ingresos del período actual (órdenes pagadas)
     const currentRevenue = await prisma.order.aggregate({
       where: {
-        status: "paid",
+        status: { in: PAID_ORDER_STATUSES },
         createdAt: { gte: startDate, lte: now },
       },
-      _sum: { totalPrice: true },
+      _sum: { totalPrice: true, refundedTotal: true },
     });
 
     // Obtener egresos del período actual (transacciones tipo EXPENSE)
     const currentExpenses = await prisma.transaction.aggregate({
       where: {
         type: "EXPENSE",
+        refundId: null, // los reembolsos ya se restan del ingreso neto
         occurredAt: { gte: startDate, lte: now },
       },
       _sum: { amount: true },
@@ -79,24 +81,30 @@ export async function GET(req: NextRequest) {
     // Obtener ingresos del período anterior
     const previousRevenue = await prisma.order.aggregate({
       where: {
-        status: "paid",
+        status: { in: PAID_ORDER_STATUSES },
         createdAt: { gte: previousStartDate, lt: previousEndDate },
       },
-      _sum: { totalPrice: true },
+      _sum: { totalPrice: true, refundedTotal: true },
     });
 
     // Obtener egresos del período anterior
     const previousExpenses = await prisma.transaction.aggregate({
       where: {
         type: "EXPENSE",
+        refundId: null, // los reembolsos ya se restan del ingreso neto
         occurredAt: { gte: previousStartDate, lt: previousEndDate },
       },
       _sum: { amount: true },
     });
 
-    const totalRevenue = currentRevenue._sum.totalPrice || 0;
+    // Ingreso neto: total de los pedidos menos lo reembolsado
+    const totalRevenue =
+      (currentRevenue._sum.totalPrice || 0) -
+      (currentRevenue._sum.refundedTotal || 0);
     const totalExpenses = currentExpenses._sum.amount || 0;
-    const prevRevenue = previousRevenue._sum.totalPrice || 0;
+    const prevRevenue =
+      (previousRevenue._sum.totalPrice || 0) -
+      (previousRevenue._sum.refundedTotal || 0);
     const prevExpenses = previousExpenses._sum.amount || 0;
 
     const profitMargin = totalRevenue - totalExpenses;
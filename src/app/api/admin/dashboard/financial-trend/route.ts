@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -52,12 +53,13 @@ export async function GET(req: NextRequest) {
     // Obtener órdenes pagadas en el rango
     const orders = await prisma.order.findMany({
       where: {
-        status: "paid",
+        status: { in: PAID_ORDER_STATUSES },
         createdAt: { gte: startDate, lte: now },
       },
       select: {
         createdAt: true,
         totalPrice: true,
+        refundedTotal: true,
       },
     });
 
@@ -65,6 +67,7 @@ export async function GET(req: NextRequest) {
     const expenses = await prisma.transaction.findMany({
       where: {
         type: "EXPENSE",
+        refundId: null, // los reembolsos ya se restan del ingreso neto
         occurredAt: { gte: startDate, lte: now },
       },
       select: {
@@ -80,7 +83,7 @@ export async function GET(req: NextRequest) {
     orders.forEach((order) => {
       const dateKey = formatDate(order.createdAt, groupBy);
       const current = dataMap.get(dateKey) || { revenue: 0, expenses: 0 };
-      current.revenue += order.totalPrice;
+      current.revenue += order.totalPrice - order.refundedTotal;
       dataMap.set(dateKey, current);
     });
 
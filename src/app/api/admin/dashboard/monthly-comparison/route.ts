@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -23,12 +24,13 @@ export async function GET(req: NextRequest) {
     // Obtener órdenes pagadas del año
     const orders = await prisma.order.findMany({
       where: {
-        status: "paid",
+        status: { in: PAID_ORDER_STATUSES },
         createdAt: { gte: startDate, lte: endDate },
       },
       select: {
         createdAt: true,
         totalPrice: true,
+        refundedTotal: true,
       },
     });
 
@@ -36,6 +38,7 @@ export async function GET(req: NextRequest) {
     const expenses = await prisma.transaction.findMany({
       where: {
         type: "EXPENSE",
+        refundId: null, // los reembolsos ya se restan del ingreso neto
         occurredAt: { gte: startDate, lte: endDate },
       },
       select: {
@@ -59,7 +62,7 @@ export async function GET(req: NextRequest) {
     orders.forEach((order) => {
       const month = order.createdAt.getMonth();
       const current = monthlyData.get(month)!;
-      current.revenue += order.totalPrice;
+      current.revenue += order.totalPrice - order.refundedTotal;
     });
 
     // Procesar egresos
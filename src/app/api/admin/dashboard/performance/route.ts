@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -63,7 +64,7 @@ export async function GET(req: NextRequest) {
     const orderItems = await prisma.orderItem.findMany({
       where: {
         order: {
-          status: "paid",
+          status: { in: PAID_ORDER_STATUSES },
           createdAt: { gte: startDate, lte: now },
         },
       },
@@ -72,6 +73,7 @@ export async function GET(req: NextRequest) {
         title: true,
         price: true,
         quantity: true,
+        refundedQuantity: true,
       },
     });
 
@@ -79,7 +81,7 @@ export async function GET(req: NextRequest) {
     const previousOrderItems = await prisma.orderItem.findMany({
       where: {
         order: {
-          status: "paid",
+          status: { in: PAID_ORDER_STATUSES },
           createdAt: { gte: previousStartDate, lt: previousEndDate },
         },
       },
@@ -87,6 +89,7 @@ export async function GET(req: NextRequest) {
         productId: true,
         price: true,
         quantity: true,
+        refundedQuantity: true,
       },
     });
 
@@ -104,8 +107,10 @@ export async function GET(req: NextRequest) {
         revenue: 0,
         sales: 0,
       };
-      current.revenue += item.price * item.quantity;
-      current.sales += item.quantity;
+      // unidades netas de devoluciones
+      const sold = item.quantity - item.refundedQuantity;
+      current.revenue += item.price * sold;
+      current.sales += sold;
       productMap.set(item.productId, current);
     });
 
@@ -113,7 +118,7 @@ export async function GET(req: NextRequest) {
       const current = previousProductMap.get(item.productId) || 0;
       previousProductMap.set(
         item.productId,
-        current + item.price * item.quantity
+        current + item.price * (item.quantity - item.refundedQuantity)
       );
     });
 
@@ -143,6 +148,7 @@ export async function GET(req: NextRequest) {
     const expenses = await prisma.transaction.findMany({
       where: {
         type: "EXPENSE",
+        refundId: null, // los reembolsos ya se restan del ingreso neto
         occurredAt: { gte: startDate, lte: now },
       },
       select: {
@@ -172,22 +178,26 @@ export async function GET(req: NextRequest) {
     // === TASA DE CRECIMIENTO MENSUAL ===
     const currentRevenue = await prisma.order.aggregate({
       where: {
-        status: "paid",
+        status: { in: PAID_ORDER_STATUSES },
         createdAt: { gte: startDate, lte: now },
       },
-      _sum: { totalPrice: true },
+      _sum: { totalPrice: true, refundedTotal: true },
     });
 
     const previousRevenue = await prisma.order.aggregate({
       where: {
-        status: "paid",
+        status: { in: PAID_ORDER_STATUSES },
         createdAt: { gte: previousStartDate, lt: previousEndDate },
       },
-      _sum: { totalPrice: true },
+      _sum: { totalPrice: true, refundedTotal: true },
     });
 
-    const currentRev = currentRevenue._sum.totalPrice || 0;
-    const previousRev = previousRevenue._sum.totalPrice || 0;
+    const currentRev =
+      (currentRevenue._sum.totalPrice || 0) -
+      (currentRevenue._sum.refundedTotal || 0);
+    const previousRev =
+      (previousRevenue._sum.totalPrice || 0) -
+      (previousRevenue._sum.refundedTotal || 0);
 
     const monthlyGrowthRate =
       previousRev > 0 ? ((currentRev - previousRev) / previousRev) * 100 : 0;
@@ -200,6 +210,7 @@ export async function GET(req: NextRequest) {
     const averageExpenses = await prisma.transaction.aggregate({
       where: {
         type: "EXPENSE",
+        refundId: null, // los reembolsos ya se restan del ingreso neto
         occurredAt: { gte: threeMonthsAgo, lte: now },
       },
       _sum: { amount: true },
@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -22,7 +23,7 @@ export async function GET(req: NextRequest) {
 
     const orders = await prisma.order.findMany({
       where: {
-        status: "paid",
+        status: { in: PAID_ORDER_STATUSES },
         createdAt: {
           gte: startDate,
         },
@@ -30,6 +31,7 @@ export async function GET(req: NextRequest) {
       select: {
         createdAt: true,
         totalPrice: true,
+        refundedTotal: true,
       },
       orderBy: {
         createdAt: "asc",
@@ -40,15 +42,16 @@ export async function GET(req: NextRequest) {
     const salesByDay = new Map<string, { date: string; total: number; count: number }>();
 
     orders.forEach((order) => {
+      const net = order.totalPrice - order.refundedTotal;
       const dateKey = order.createdAt.toISOString().split("T")[0];
       const existing = salesByDay.get(dateKey);
       if (existing) {
-        existing.total += order.totalPrice;
+        existing.total += net;
         existing.count += 1;
       } else {
         salesByDay.set(dateKey, {
           date: dateKey,
-          total: order.totalPrice,
+          total: net,
           count: 1,
         });
       }
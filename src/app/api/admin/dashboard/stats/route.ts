@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -21,11 +22,11 @@ export async function GET(req: NextRequest) {
       lowStockProducts,
     ] = await Promise.all([
       prisma.order.count(),
-      prisma.order.count({ where: { status: "pending" } }),
-      prisma.order.count({ where: { status: "paid" } }),
+      prisma.order.count({ where: { status: "PENDING" } }),
+      prisma.order.count({ where: { status: { in: PAID_ORDER_STATUSES } } }),
       prisma.order.aggregate({
-        where: { status: "paid" },
-        _sum: { totalPrice: true },
+        where: { status: { in: PAID_ORDER_STATUSES } },
+        _sum: { totalPrice: true, refundedTotal: true },
       }),
       prisma.product.count(),
       prisma.productVariant.count({
@@ -38,7 +39,10 @@ export async function GET(req: NextRequest) {
         totalOrders,
         pendingOrders,
         paidOrders,
-        totalRevenue: totalRevenue._sum.totalPrice || 0,
+        // neto de reembolsos
+        totalRevenue:
+          (totalRevenue._sum.totalPrice || 0) -
+          (totalRevenue._sum.refundedTotal || 0),
         totalProducts,
         lowStockProducts,
       }),
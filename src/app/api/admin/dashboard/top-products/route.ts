@@ -2,6 +2,7 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
+import { PAID_ORDER_STATUSES } from "@/lib/orderStatus";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -20,11 +21,12 @@ export async function GET(req: NextRequest) {
       by: ["productId"],
       where: {
         order: {
-          status: "paid",
+          status: { in: PAID_ORDER_STATUSES },
         },
       },
       _sum: {
         quantity: true,
+        refundedQuantity: true,
       },
       _count: {
         _all: true,
@@ -59,7 +61,8 @@ export async function GET(req: NextRequest) {
         title: product?.title || "Producto desconocido",
         imageUrl: product?.imageUrl,
         seasonLabel: product?.seasonLabel,
-        totalSold: item._sum.quantity || 0,
+        totalSold:
+          (item._sum.quantity || 0) - (item._sum.refundedQuantity || 0),
         orderCount: item._count._all,
       };
     });
@@ -0,0 +1,46 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { ACTIVE_ASSIGNMENT } from "@/lib/deliveries";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// DELETE /api/admin/deliveries/assignments/:id - Desasignar (queda CANCELLED como historial)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const { count } = await prisma.deliveryAssignment.updateMany({
+      where: { id, ...ACTIVE_ASSIGNMENT },
+      data: { status: "CANCELLED" },
+    });
+    if (count === 0) {
+      const exists = await prisma.deliveryAssignment.findUnique({
+        where: { id },
+        select: { id: true },
+      });
+      return new Response(
+        JSON.stringify({
+          error: exists ? "ASSIGNMENT_CLOSED" : "ASSIGNMENT_NOT_FOUND",
+        }),
+        withCORS({ status: exists ? 409 : 404 }, origin)
+      );
+    }
+
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { DeliveryAssignmentStatus, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { localDayRange } from "@/lib/format";
+import { ACTIVE_PAYMENT, summarizePayments } from "@/lib/payments";
+import {
+  ACTIVE_ASSIGNMENT,
+  AssignmentError,
+  assignDeliveries,
+} from "@/lib/deliveries";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z.object({
+  courierId: z.string().min(1),
+  // en el orden del recorrido (p. ej. las paradas de /deliveries/plan)
+  orderIds: z
+    .array(z.string().min(1))
+    .min(1)
+    .max(100)
+    .refine((ids) => new Set(ids).size === ids.length, {
+      message: "Pedidos repetidos",
+    }),
+});
+
+// GET /api/admin/deliveries/assignments - Asignaciones (activas por defecto) y efectivo a rendir por repartidor
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { searchParams } = new URL(req.url);
+    const courierId = searchParams.get("courierId") || undefined;
+    const status = (searchParams.get("status") || "").toUpperCase();
+    const date = searchParams.get("date") || undefined; // YYYY-MM-DD de entrega
+
+    const where: Prisma.DeliveryAssignmentWhereInput = { courierId };
+    if (date && /^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      // rendición del día: lo entregado en esa fecha
+      const { from, to } = localDayRange(date);
+      where.deliveredAt = { gte: from, lt: to };
+    }
+    if (status in DeliveryAssignmentStatus) {
+      where.status = status as DeliveryAssignmentStatus;
+    } else if (!where.deliveredAt) {
+      Object.assign(where, ACTIVE_ASSIGNMENT);
+    }
+
+    const items = await prisma.deliveryAssignment.findMany({
+      where,
+      orderBy: [{ courierId: "asc" }, { sequence: "asc" }, { assignedAt: "asc" }],
+      take: 500,
+      include: {
+        courier: { select: { id: true, name: true, email: true } },
+        proofImages: { orderBy: { order: "asc" } },
+        order: {
+          select: {
+            id: true,
+            trackingCode: true,
+            status: true,
+            name: true,
+            phone: true,
+            address: true,
+            totalPrice: true,
+            payments: { where: ACTIVE_PAYMENT, select: { amount: true } },
+          },
+        },
+      },
+    });
+
+    // Efectivo que cada repartidor tiene que rendir
+    const cashByCourier = new Map<string, number>();
+    for (const a of items) {
+      cashByCourier.set(
+        a.courierId,
+        (cashByCourier.get(a.courierId) ?? 0) + a.cashCollected
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        items: items.map(({ order: { payments, ...order }, ...a }) => ({
+          ...a,
+          order: {
+            ...order,
+            ...summarizePayments(order.totalPrice, payments),
+          },
+        })),
+        cashByCourier: Object.fromEntries(cashByCourier),
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/deliveries/assignments - Asignar pedidos READY a un repartidor
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const body = schema.parse(await req.json());
+
+    const assignments = await prisma.$transaction((tx) =>
+      assignDeliveries(tx, { ...body, assignedById: user.id })
+    );
+
+    return new Response(
+      JSON.stringify({ items: assignments }),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof AssignmentError) {
+      return new Response(
+        JSON.stringify({ error: err.reason, items: err.items }),
+        withCORS(
+          { status: err.reason === "COURIER_NOT_FOUND" ? 404 : 409 },
+          origin
+        )
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { LatLngSchema, shopLocation } from "@/lib/delivery";
+import { formatDate, formatGs, formatTime, localDayRange } from "@/lib/format";
+import { ACTIVE_PAYMENT, summarizePayments } from "@/lib/payments";
+import {
+  DELIVERY_SPEED_KMH,
+  mapsDirectionsUrls,
+  routeLegs,
+  solveRoute,
+} from "@/lib/routing";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const MAX_STOPS = 100;
+
+const schema = z.object({
+  // pedidos puntuales, o los que pasaron a READY en una fecha (hora local)
+  orderIds: z.array(z.string().min(1)).min(1).max(MAX_STOPS).optional(),
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Formato YYYY-MM-DD")
+    .optional(),
+  depot: LatLngSchema.optional(), // por defecto, el local (SHOP_LAT/SHOP_LNG)
+  startAt: z.coerce.date().optional(),
+  speedKmh: z.number().positive().max(120).default(DELIVERY_SPEED_KMH),
+  serviceMinutes: z.number().int().min(0).max(120).default(5),
+  roundTrip: z.boolean().default(true),
+});
+
+// POST /api/admin/deliveries/plan - Orden sugerido de entregas de pedidos READY
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const body = schema.parse(await req.json().catch(() => ({})));
+
+    const depot = body.depot ?? shopLocation();
+    if (!depot) {
+      return new Response(
+        JSON.stringify({
+          error: "DEPOT_REQUIRED",
+          message: "Enviá depot o configurá SHOP_LAT/SHOP_LNG.",
+        }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const where: Prisma.OrderWhereInput = {
+      status: "READY",
+      deliveryMethod: "DELIVERY",
+    };
+    if (body.orderIds) where.id = { in: body.orderIds };
+    if (body.date) {
+      const { from, to } = localDayRange(body.date);
+      where.statusHistory = {
+        some: {
+          toStatus: "READY",
+          fulfilmentId: null,
+          createdAt: { gte: from, lt: to },
+        },
+      };
+    }
+
+    const orders = await prisma.order.findMany({
+      where,
+      orderBy: { createdAt: "asc" },
+      take: MAX_STOPS,
+      select: {
+        id: true,
+        trackingCode: true,
+        name: true,
+        phone: true,
+        address: true,
+        notes: true,
+        lat: true,
+        lng: true,
+        totalPrice: true,
+        payments: { where: ACTIVE_PAYMENT, select: { amount: true } },
+      },
+    });
+
+    // Pedidos pedidos explícitamente que no se pueden rutear
+    const skipped: Array<{ orderId: string; reason: "NOT_READY" | "NO_LOCATION" }> =
+      (body.orderIds ?? [])
+        .filter((id) => !orders.some((o) => o.id === id))
+        .map((orderId) => ({ orderId, reason: "NOT_READY" }));
+    const located = orders.filter((o) => {
+      if (o.lat !== null && o.lng !== null) return true;
+      skipped.push({ orderId: o.id, reason: "NO_LOCATION" });
+      return false;
+    });
+
+    const points = located.map((o) => ({ lat: o.lat!, lng: o.lng! }));
+    const sequence = solveRoute(depot, points, body.roundTrip);
+    const route = sequence.map((i) => located[i]);
+    const { legs, returnKm, totalKm, totalMinutes } = routeLegs(
+      depot,
+      sequence.map((i) => points[i]),
+      {
+        startAt: body.startAt ?? new Date(),
+        speedKmh: body.speedKmh,
+        serviceMinutes: body.serviceMinutes,
+        roundTrip: body.roundTrip,
+      }
+    );
+
+    const stops = route.map((o, i) => ({
+      sequence: i + 1,
+      orderId: o.id,
+      trackingCode: o.trackingCode,
+      name: o.name,
+      phone: o.phone,
+      address: o.address,
+      notes: o.notes,
+      lat: o.lat!,
+      lng: o.lng!,
+      // lo que el repartidor tiene que cobrar al entregar
+      balance: Math.max(0, summarizePayments(o.totalPrice, o.payments).balance),
+      distanceKm: Number(legs[i].distanceKm.toFixed(2)),
+      cumulativeKm: Number(legs[i].cumulativeKm.toFixed(2)),
+      eta: legs[i].eta,
+    }));
+
+    // Lista para pegar en WhatsApp
+    const shareText = [
+      `Entregas ${formatDate(body.startAt ?? new Date())} — ${stops.length} paradas, ${totalKm.toFixed(1)} km`,
+      ...stops.map((s) =>
+        [
+          `${s.sequence}. ${formatTime(s.eta)} · ${s.name} · ${s.phone}`,
+          `   ${s.address}`,
+          s.balance > 0 ? `   Cobrar: ${formatGs(s.balance)}` : null,
+          `   https://maps.google.com/?q=${s.lat},${s.lng}`,
+        ]
+          .filter(Boolean)
+          .join("\n")
+      ),
+    ].join("\n");
+
+    return new Response(
+      JSON.stringify({
+        depot,
+        roundTrip: body.roundTrip,
+        stops,
+        skipped,
+        totalKm: Number(totalKm.toFixed(2)),
+        returnKm: Number(returnKm.toFixed(2)),
+        totalMinutes,
+        mapsUrls: stops.length
+          ? mapsDirectionsUrls(depot, stops, body.roundTrip)
+          : [],
+        shareText,
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
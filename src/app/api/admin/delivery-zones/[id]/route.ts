@@ -0,0 +1,102 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import { DeliveryZoneFields, deliveryZoneRuleError } from "@/lib/delivery";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// Para PATCH todos los campos son opcionales (sin defaults)
+const UpdateSchema = DeliveryZoneFields.extend({
+  priority: DeliveryZoneFields.shape.priority.unwrap().optional(),
+  active: DeliveryZoneFields.shape.active.unwrap().optional(),
+}).partial();
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const { polygon, ...data } = UpdateSchema.parse(await req.json());
+
+    const existing = await prisma.deliveryZone.findUnique({ where: { id } });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const merged = {
+      type: data.type ?? existing.type,
+      minKm: data.minKm !== undefined ? data.minKm : existing.minKm,
+      maxKm: data.maxKm !== undefined ? data.maxKm : existing.maxKm,
+      polygon: polygon !== undefined ? polygon : existing.polygon,
+    };
+    const ruleError = deliveryZoneRuleError(merged);
+    if (ruleError) {
+      return new Response(
+        JSON.stringify({ error: "BAD_REQUEST", message: ruleError }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const isRadius = merged.type === "RADIUS";
+    const updated = await prisma.deliveryZone.update({
+      where: { id },
+      data: {
+        ...data,
+        minKm: isRadius ? merged.minKm ?? 0 : null,
+        maxKm: isRadius ? merged.maxKm : null,
+        polygon: isRadius
+          ? Prisma.DbNull
+          : (merged.polygon as Prisma.InputJsonValue),
+      },
+    });
+    return new Response(
+      JSON.stringify(updated),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+// DELETE /api/admin/delivery-zones/:id - Los pedidos conservan el costo cobrado
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const existing = await prisma.deliveryZone.findUnique({ where: { id } });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    await prisma.deliveryZone.delete({ where: { id } });
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
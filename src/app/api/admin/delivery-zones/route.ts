@@ -0,0 +1,76 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import {
+  DeliveryZoneFields,
+  deliveryZoneRuleError,
+  shopLocation,
+} from "@/lib/delivery";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/admin/delivery-zones - Zonas de envío (incluye inactivas)
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+
+    const items = await prisma.deliveryZone.findMany({
+      orderBy: [{ priority: "desc" }, { fee: "asc" }],
+      include: { _count: { select: { orders: true } } },
+    });
+
+    return new Response(
+      JSON.stringify({ items, shop: shopLocation() }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/delivery-zones - Crear zona (anillo o polígono)
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { polygon, ...data } = DeliveryZoneFields.parse(await req.json());
+
+    const ruleError = deliveryZoneRuleError({ ...data, polygon });
+    if (ruleError) {
+      return new Response(
+        JSON.stringify({ error: "BAD_REQUEST", message: ruleError }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const created = await prisma.deliveryZone.create({
+      data: {
+        ...data,
+        // sólo se guarda la geometría que corresponde al tipo
+        minKm: data.type === "RADIUS" ? data.minKm ?? 0 : null,
+        maxKm: data.type === "RADIUS" ? data.maxKm : null,
+        polygon: data.type === "POLYGON" && polygon ? polygon : Prisma.DbNull,
+      },
+    });
+
+    return new Response(
+      JSON.stringify(created),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
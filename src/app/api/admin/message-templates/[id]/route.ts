@@ -0,0 +1,88 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import { unknownPlaceholders } from "@/lib/whatsapp";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// La clave no se edita: el endpoint de WhatsApp la usa para elegir plantilla
+const UpdateSchema = z.object({
+  label: z.string().trim().min(2).max(80).optional(),
+  body: z.string().trim().min(1).max(2000).optional(),
+  active: z.boolean().optional(),
+});
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const data = UpdateSchema.parse(await req.json());
+
+    const existing = await prisma.messageTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const unknown = data.body ? unknownPlaceholders(data.body) : [];
+    if (unknown.length > 0) {
+      return new Response(
+        JSON.stringify({ error: "UNKNOWN_PLACEHOLDERS", placeholders: unknown }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const updated = await prisma.messageTemplate.update({
+      where: { id },
+      data,
+    });
+    return new Response(
+      JSON.stringify(updated),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const existing = await prisma.messageTemplate.findUnique({ where: { id } });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    await prisma.messageTemplate.delete({ where: { id } });
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
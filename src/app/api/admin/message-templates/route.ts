@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { TEMPLATE_PLACEHOLDERS, unknownPlaceholders } from "@/lib/whatsapp";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const CreateSchema = z.object({
+  key: z
+    .string()
+    .trim()
+    .min(2)
+    .max(40)
+    .transform((v) => v.toUpperCase())
+    .pipe(z.string().regex(/^[A-Z0-9_]+$/, "Sólo A-Z, 0-9 y _")),
+  label: z.string().trim().min(2).max(80),
+  body: z.string().trim().min(1).max(2000),
+  active: z.boolean().default(true),
+});
+
+// GET /api/admin/message-templates - Plantillas y marcadores disponibles
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const items = await prisma.messageTemplate.findMany({
+      orderBy: { label: "asc" },
+    });
+    return new Response(
+      JSON.stringify({ items, placeholders: TEMPLATE_PLACEHOLDERS }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/message-templates - Crear plantilla
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const data = CreateSchema.parse(await req.json());
+
+    const unknown = unknownPlaceholders(data.body);
+    if (unknown.length > 0) {
+      return new Response(
+        JSON.stringify({ error: "UNKNOWN_PLACEHOLDERS", placeholders: unknown }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const created = await prisma.messageTemplate.create({ data });
+    return new Response(
+      JSON.stringify(created),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return new Response(
+        JSON.stringify({ error: "CONFLICT", message: "La clave ya existe." }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import { OrderTransitionError } from "@/lib/orderStatus";
+import { RefundError, cancelOrder } from "@/lib/refunds";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z.object({
+  reason: z.string().trim().min(3).max(300),
+  // devolver lo cobrado (seña, transferencias...) con egresos compensatorios
+  refund: z.boolean().default(true),
+});
+
+// POST /api/admin/orders/:id/cancel - Cancelar: devuelve stock y, opcionalmente, el dinero
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const { reason, refund } = schema.parse(await req.json());
+
+    const exists = await prisma.order.count({ where: { id } });
+    if (!exists) {
+      return new Response(
+        JSON.stringify({ error: "ORDER_NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const refundRecord = await cancelOrder(tx, {
+        orderId: id,
+        reason,
+        refund,
+        createdById: user.id,
+      });
+      const order = await tx.order.findUniqueOrThrow({ where: { id } });
+      return { order, refund: refundRecord };
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof OrderTransitionError) {
+      return new Response(
+        JSON.stringify(err),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    if (err instanceof RefundError) {
+      return new Response(
+        JSON.stringify({ error: err.reason, refundable: err.refundable }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
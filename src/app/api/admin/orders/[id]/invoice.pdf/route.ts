@@ -0,0 +1,60 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { loadOrderDocument, orderNumber, renderOrderPdf } from "@/lib/receipts";
+
+export const runtime = "nodejs";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/admin/orders/:id/invoice.pdf - Factura con datos completos del pedido
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN" }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const document = await loadOrderDocument(prisma, id);
+    if (!document) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const pdf = await renderOrderPdf(document, "invoice");
+    return new Response(
+      new Uint8Array(pdf),
+      withCORS(
+        {
+          status: 200,
+          headers: {
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `attachment; filename="factura-${orderNumber(id)}.pdf"`,
+            "Cache-Control": "private, no-store",
+          },
+        },
+        origin
+      )
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
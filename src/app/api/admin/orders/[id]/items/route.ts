@@ -0,0 +1,129 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import { PricingError } from "@/lib/pricing";
+import {
+  PersonalizationError,
+  PersonalizationSchema,
+} from "@/lib/personalization";
+import { StockError } from "@/lib/stock";
+import { OrderEditError, editOrderItems } from "@/lib/orderEditing";
+import { summarizePayments } from "@/lib/payments";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z
+  .object({
+    add: z
+      .array(
+        z
+          .object({
+            productId: z.string(),
+            variantId: z.string(),
+            qty: z.number().int().min(1).max(99),
+            personalization: z.array(PersonalizationSchema).default([]),
+          })
+          .refine((it) => it.personalization.length <= it.qty, {
+            message: "Más personalizaciones que unidades",
+            path: ["personalization"],
+          })
+      )
+      .default([]),
+    remove: z.array(z.string().min(1)).default([]),
+    update: z
+      .array(
+        z.object({
+          orderItemId: z.string().min(1),
+          variantId: z.string().min(1).optional(), // cambio de talle
+          qty: z.number().int().min(1).max(99).optional(),
+        })
+      )
+      .default([]),
+  })
+  .refine((b) => b.add.length + b.remove.length + b.update.length > 0, {
+    message: "No hay cambios",
+  })
+  // Una línea se toca una sola vez: repetida reservaría stock dos veces
+  .refine(
+    (b) => {
+      const ids = [...b.update.map((u) => u.orderItemId), ...b.remove];
+      return new Set(ids).size === ids.length;
+    },
+    { message: "Línea repetida en update/remove", path: ["update"] }
+  );
+
+// PATCH /api/admin/orders/:id/items - Agregar, quitar o cambiar líneas del pedido
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const changes = schema.parse(await req.json());
+
+    const order = await prisma.$transaction(async (tx) => {
+      await editOrderItems(tx, id, changes, user.id);
+      return tx.order.findUniqueOrThrow({
+        where: { id },
+        include: {
+          items: {
+            include: { personalizations: { orderBy: { unitIndex: "asc" } } },
+          },
+          discounts: { select: { description: true, amount: true } },
+          payments: { where: { voidedAt: null }, select: { amount: true } },
+        },
+      });
+    });
+
+    const { payments, ...rest } = order;
+    return new Response(
+      JSON.stringify({
+        ...rest,
+        ...summarizePayments(order.totalPrice, payments),
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof OrderEditError) {
+      const status =
+        err.reason === "ORDER_NOT_FOUND"
+          ? 404
+          : err.reason === "ITEM_NOT_FOUND" || err.reason === "EMPTY_ORDER"
+            ? 400
+            : 409;
+      return new Response(
+        JSON.stringify({ error: err.reason, items: err.items }),
+        withCORS({ status }, origin)
+      );
+    }
+    if (err instanceof PricingError) {
+      return new Response(
+        JSON.stringify({ error: "INVALID_ITEMS", items: err.items }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+    if (err instanceof PersonalizationError) {
+      return new Response(
+        JSON.stringify({ error: "INVALID_PERSONALIZATION", items: err.items }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+    if (err instanceof StockError) {
+      return new Response(
+        JSON.stringify({ error: "OUT_OF_STOCK", items: err.items }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
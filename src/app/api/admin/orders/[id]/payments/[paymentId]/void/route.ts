@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import { PaymentError, voidPayment } from "@/lib/payments";
+import { withIdempotency } from "@/lib/idempotency";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z.object({
+  reason: z.string().trim().min(1).max(200).optional(),
+});
+
+// POST /api/admin/orders/:id/payments/:paymentId/void - Anular un pago
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string; paymentId: string }> }
+) {
+  return withIdempotency(req, () => voidOrderPayment(req, ctx));
+}
+
+async function voidOrderPayment(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; paymentId: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id, paymentId } = await params;
+    const { reason } = schema.parse(await req.json().catch(() => ({})));
+
+    const payment = await prisma.$transaction((tx) =>
+      voidPayment(tx, id, paymentId, reason)
+    );
+
+    return new Response(
+      JSON.stringify(payment),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof PaymentError) {
+      return new Response(
+        JSON.stringify({ error: err.reason }),
+        withCORS(
+          { status: err.reason === "PAYMENT_NOT_FOUND" ? 404 : 409 },
+          origin
+        )
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
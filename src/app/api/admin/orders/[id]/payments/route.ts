@@ -0,0 +1,167 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { v2 as cloudinary } from "cloudinary";
+import { z } from "zod";
+import {
+  PaymentError,
+  recordPayment,
+  summarizePayments,
+} from "@/lib/payments";
+import { withIdempotency } from "@/lib/idempotency";
+
+export const runtime = "nodejs";
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+const MAX_BYTES = 5 * 1024 * 1024;
+const ALLOWED = ["image/jpeg", "image/png", "image/webp"];
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z.object({
+  amount: z.coerce.number().int().positive(), // Gs
+  method: z.enum(["CASH", "BANK_TRANSFER", "QR", "CARD"]),
+  reference: z.string().trim().max(120).optional(),
+  paidAt: z.coerce.date().optional(),
+  // si el comprobante ya se subió con /api/upload-sign
+  receiptUrl: z.string().url().optional(),
+  receiptPublicId: z.string().min(1).optional(),
+});
+
+// GET /api/admin/orders/:id/payments - Pagos (incluye anulados) y saldo
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        totalPrice: true,
+        payments: {
+          orderBy: { paidAt: "asc" },
+          include: { recordedBy: { select: { id: true, name: true } } },
+        },
+      },
+    });
+    if (!order) {
+      return new Response(
+        JSON.stringify({ error: "ORDER_NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        orderId: order.id,
+        totalPrice: order.totalPrice,
+        ...summarizePayments(order.totalPrice, order.payments),
+        items: order.payments,
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/orders/:id/payments - Registrar un pago (JSON o multipart con "receipt")
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  return withIdempotency(req, () => createPayment(req, ctx));
+}
+
+async function createPayment(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  // Fuera del try: si el cobro falla, el comprobante ya subido se borra
+  let uploadedPublicId: string | null = null;
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    let input: z.infer<typeof schema>;
+    const ct = req.headers.get("content-type") || "";
+    if (ct.includes("multipart/form-data")) {
+      const form = await req.formData();
+      input = schema.parse({
+        amount: form.get("amount"),
+        method: form.get("method"),
+        reference: form.get("reference") || undefined,
+        paidAt: form.get("paidAt") || undefined,
+      });
+
+      const file = form.get("receipt");
+      if (file instanceof File) {
+        if (file.size > MAX_BYTES) {
+          return new Response(
+            JSON.stringify({ error: "FILE_TOO_LARGE" }),
+            withCORS({ status: 413 }, origin)
+          );
+        }
+        if (!ALLOWED.includes(file.type || "")) {
+          return new Response(
+            JSON.stringify({ error: "INVALID_TYPE" }),
+            withCORS({ status: 400 }, origin)
+          );
+        }
+        const bytes = Buffer.from(await file.arrayBuffer());
+        const dataUri = `data:${file.type};base64,${bytes.toString("base64")}`;
+        const { secure_url, public_id } = await cloudinary.uploader.upload(
+          dataUri,
+          { folder: "hincha/payments", resource_type: "image" }
+        );
+        uploadedPublicId = public_id;
+        input.receiptUrl = secure_url;
+        input.receiptPublicId = public_id;
+      }
+    } else {
+      input = schema.parse(await req.json());
+    }
+
+    const payment = await prisma.$transaction((tx) =>
+      recordPayment(tx, id, input, user.id)
+    );
+
+    return new Response(
+      JSON.stringify(payment),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (uploadedPublicId) {
+      await cloudinary.uploader.destroy(uploadedPublicId).catch(() => {});
+    }
+    if (err instanceof PaymentError) {
+      return new Response(
+        JSON.stringify({ error: err.reason, balance: err.balance }),
+        withCORS({ status: err.reason === "ORDER_NOT_FOUND" ? 404 : 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
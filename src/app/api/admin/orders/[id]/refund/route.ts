@@ -0,0 +1,106 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import { RefundError, refundOrder } from "@/lib/refunds";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z
+  .object({
+    reason: z.string().trim().min(3).max(300),
+    // devolución parcial por ítem (unidades)
+    items: z
+      .array(
+        z.object({
+          orderItemId: z.string().min(1),
+          quantity: z.number().int().min(1),
+        })
+      )
+      .default([]),
+    // Gs a devolver; por defecto precio × unidades devueltas
+    amount: z.number().int().min(0).optional(),
+    // false si la mercadería volvió dañada y no se puede revender
+    restock: z.boolean().default(true),
+  })
+  .refine((b) => b.items.length > 0 || b.amount !== undefined, {
+    message: "Indicá items y/o amount",
+    path: ["items"],
+  });
+
+// GET /api/admin/orders/:id/refund - Reembolsos registrados del pedido
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const items = await prisma.orderRefund.findMany({
+      where: { orderId: id },
+      orderBy: { createdAt: "asc" },
+      include: {
+        items: true,
+        transactions: { select: { id: true, amount: true, reversalOfId: true } },
+        createdBy: { select: { id: true, name: true } },
+      },
+    });
+
+    return new Response(
+      JSON.stringify({ items }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/orders/:id/refund - Reembolso total o parcial
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const body = schema.parse(await req.json());
+
+    const refund = await prisma.$transaction((tx) =>
+      refundOrder(tx, { orderId: id, ...body, createdById: user.id })
+    );
+
+    return new Response(
+      JSON.stringify(refund),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof RefundError) {
+      return new Response(
+        JSON.stringify({
+          error: err.reason,
+          items: err.items,
+          refundable: err.refundable,
+        }),
+        withCORS(
+          { status: err.reason === "ORDER_NOT_FOUND" ? 404 : 409 },
+          origin
+        )
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -3,16 +3,31 @@ import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
 import { z } from "zod";
+import {
+  OrderStatusInput,
+  OrderTransitionError,
+  transitionOrder,
+} from "@/lib/orderStatus";
+import {
+  ACTIVE_PAYMENT,
+  PaymentError,
+  recordPayment,
+  summarizePayments,
+} from "@/lib/payments";
+import { deliverOrder } from "@/lib/deliveries";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
 }
 
+const PaymentMethodEnum = z.enum(["CASH", "BANK_TRANSFER", "QR", "CARD"]);
+
 const schema = z.object({
-  status: z.enum(["pending", "confirmed", "preparing", "ready", "delivered", "cancelled"])
-    .transform(val => val.toUpperCase() as "PENDING" | "CONFIRMED" | "PREPARING" | "READY" | "DELIVERED" | "CANCELLED")
-    .optional(),
+  status: OrderStatusInput.optional(),
+  // compat: registrar una seña desde acá equivale a POST .../payments
   depositAmount: z.number().int().positive().optional(),
+  // medio con que se cobra la seña o el saldo al entregar
+  paymentMethod: PaymentMethodEnum.default("CASH"),
 });
 
 export async function PATCH(
@@ -28,15 +43,7 @@ export async function PATCH(
     // Obtener la orden actual
     const order = await prisma.order.findUnique({
       where: { id },
-      select: {
-        id: true,
-        status: true,
-        totalPrice: true,
-        depositAmount: true,
-        depositTransactionId: true,
-        balanceTransactionId: true,
-        userId: true,
-      },
+      select: { id: true, status: true },
     });
 
     if (!order) {
@@ -48,64 +55,46 @@ export async function PATCH(
 
     // Actualizar usando transacción de Prisma
     const updated = await prisma.$transaction(async (tx) => {
-      const updateData: {
-        status?: string;
-        depositAmount?: number;
-        depositPaidAt?: Date;
-        depositTransactionId?: string;
-        balancePaidAt?: Date;
-        balanceTransactionId?: string;
-      } = {};
-
       // Si se está registrando una seña
-      if (body.depositAmount !== undefined && !order.depositTransactionId) {
-        const depositTransaction = await tx.transaction.create({
-          data: {
-            userId: order.userId || user.id,
-            type: "INCOME",
+      if (body.depositAmount !== undefined) {
+        await recordPayment(
+          tx,
+          id,
+          {
             amount: body.depositAmount,
-            description: `Seña del pedido #${order.id.slice(-8)}`,
-            category: "venta",
-            occurredAt: new Date(),
+            method: body.paymentMethod,
+            reference: "Seña",
           },
-        });
-
-        updateData.depositAmount = body.depositAmount;
-        updateData.depositPaidAt = new Date();
-        updateData.depositTransactionId = depositTransaction.id;
+          user.id
+        );
       }
 
-      // Si se está cambiando el status a "DELIVERED" y hay saldo pendiente
+      // Valida contra la tabla de transiciones y registra el historial
       if (body.status === "DELIVERED" && order.status !== "DELIVERED") {
-        const depositAmount = updateData.depositAmount || order.depositAmount || 0;
-        const balance = order.totalPrice - depositAmount;
-
-        // Solo crear transacción de saldo si hay un balance > 0 y no se ha registrado antes
-        if (balance > 0 && !order.balanceTransactionId) {
-          const balanceTransaction = await tx.transaction.create({
-            data: {
-              userId: order.userId || user.id,
-              type: "INCOME",
-              amount: balance,
-              description: `Saldo del pedido #${order.id.slice(-8)}`,
-              category: "venta",
-              occurredAt: new Date(),
-            },
-          });
-
-          updateData.balancePaidAt = new Date();
-          updateData.balanceTransactionId = balanceTransaction.id;
-        }
-
-        updateData.status = "DELIVERED";
+        // Al entregar, el saldo pendiente se cobra en ese momento
+        await deliverOrder(tx, {
+          orderId: id,
+          changedById: user.id,
+          method: body.paymentMethod,
+        });
       } else if (body.status && body.status !== order.status) {
-        updateData.status = body.status;
+        await transitionOrder(tx, {
+          orderId: id,
+          to: body.status,
+          changedById: user.id,
+        });
       }
 
-      return await tx.order.update({
+      const result = await tx.order.findUniqueOrThrow({
         where: { id },
-        data: updateData,
+        include: {
+          payments: { where: ACTIVE_PAYMENT, orderBy: { paidAt: "asc" } },
+        },
       });
+      return {
+        ...result,
+        ...summarizePayments(result.totalPrice, result.payments),
+      };
     });
 
     return new Response(
@@ -113,6 +102,18 @@ export async function PATCH(
       withCORS({ status: 200 }, origin)
     );
   } catch (err) {
+    if (err instanceof OrderTransitionError) {
+      return new Response(
+        JSON.stringify(err),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    if (err instanceof PaymentError) {
+      return new Response(
+        JSON.stringify({ error: err.reason, balance: err.balance }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
     console.error("Error updating order:", err);
     return new Response(
       JSON.stringify({ error: "BAD_REQUEST" }),
@@ -0,0 +1,87 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { loadOrderDocument } from "@/lib/receipts";
+import { summarizePayments } from "@/lib/payments";
+import {
+  BALANCE_REMINDER_TEMPLATE,
+  STATUS_TEMPLATE,
+  buildTemplateContext,
+  renderTemplate,
+  whatsappLink,
+} from "@/lib/whatsapp";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/admin/orders/:id/whatsapp?template=KEY - Texto del mensaje y link wa.me.
+// Sin ?template se sugiere según el estado (o el recordatorio si hay saldo)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN" }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const requested = new URL(req.url).searchParams.get("template");
+
+    const document = await loadOrderDocument(prisma, id);
+    if (!document) {
+      return new Response(
+        JSON.stringify({ error: "ORDER_NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const { order } = document;
+    const { balance } = summarizePayments(order.totalPrice, order.payments);
+    const key =
+      requested?.trim().toUpperCase() ||
+      STATUS_TEMPLATE[order.status] ||
+      (balance > 0 ? BALANCE_REMINDER_TEMPLATE : null);
+    if (!key) {
+      return new Response(
+        JSON.stringify({ error: "TEMPLATE_REQUIRED" }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const template = await prisma.messageTemplate.findUnique({
+      where: { key },
+    });
+    if (!template || !template.active) {
+      return new Response(
+        JSON.stringify({ error: "TEMPLATE_NOT_FOUND", template: key }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const text = renderTemplate(template.body, buildTemplateContext(document));
+    return new Response(
+      JSON.stringify({
+        template: template.key,
+        phone: order.phone,
+        text,
+        link: whatsappLink(order.phone, text),
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
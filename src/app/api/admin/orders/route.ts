@@ -3,6 +3,9 @@ import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
 import { Prisma } from "@prisma/client";
+import { parseOrderStatus } from "@/lib/orderStatus";
+import { ACTIVE_PAYMENT, summarizePayments } from "@/lib/payments";
+import { normalizeTrackingCode } from "@/lib/tracking";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -15,7 +18,7 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const page = Math.max(1, Number(searchParams.get("page") || 1));
     const limit = Math.min(50, Number(searchParams.get("limit") || 20));
-    const status = searchParams.get("status") || undefined;
+    const status = parseOrderStatus(searchParams.get("status") || "") ?? undefined;
     const search = searchParams.get("search") || undefined;
 
     const where: Prisma.OrderWhereInput = {};
@@ -26,6 +29,7 @@ export async function GET(req: NextRequest) {
         { phone: { contains: search, mode: "insensitive" } },
         { address: { contains: search, mode: "insensitive" } },
         { id: { contains: search } },
+        { trackingCode: normalizeTrackingCode(search) },
       ];
 
     const [total, items] = await Promise.all([
@@ -37,14 +41,17 @@ export async function GET(req: NextRequest) {
         take: limit,
         select: {
           id: true,
+          trackingCode: true,
           status: true,
           name: true,
           phone: true,
           subtotal: true,
           totalPrice: true,
-          depositAmount: true,
-          depositPaidAt: true,
-          balancePaidAt: true,
+          deliveryMethod: true,
+          deliveryFee: true,
+          refundedTotal: true,
+          cancelledAt: true,
+          payments: { where: ACTIVE_PAYMENT, select: { amount: true } },
           createdAt: true,
           _count: { select: { items: true } },
         },
@@ -52,7 +59,15 @@ export async function GET(req: NextRequest) {
     ]);
 
     return new Response(
-      JSON.stringify({ items, page, limit, total }),
+      JSON.stringify({
+        items: items.map(({ payments, ...o }) => ({
+          ...o,
+          ...summarizePayments(o.totalPrice, payments),
+        })),
+        page,
+        limit,
+        total,
+      }),
       withCORS({ status: 200 }, origin)
     );
   } catch {
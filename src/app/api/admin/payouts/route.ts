@@ -0,0 +1,127 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import { PayoutError, settlePayouts } from "@/lib/commissions";
+import { withIdempotency } from "@/lib/idempotency";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z
+  .object({
+    // período [from, to): por defecto, todo lo pendiente hasta ahora
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    sellerIds: z.array(z.string().min(1)).min(1).optional(),
+    notes: z.string().trim().max(500).optional(),
+  })
+  .refine((b) => !b.from || !b.to || b.from < b.to, {
+    message: "from debe ser anterior a to",
+    path: ["from"],
+  });
+
+// GET /api/admin/payouts - Saldo pendiente por vendedor y liquidaciones hechas
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, Number(searchParams.get("page") || 1));
+    const limit = Math.min(100, Number(searchParams.get("limit") || 20));
+    const sellerId = searchParams.get("sellerId") || undefined;
+
+    const [balances, total, items] = await Promise.all([
+      prisma.sellerLedgerEntry.groupBy({
+        by: ["sellerId"],
+        where: { payoutId: null, sellerId },
+        _sum: { amount: true },
+        _count: true,
+      }),
+      prisma.payout.count({ where: { sellerId } }),
+      prisma.payout.findMany({
+        where: { sellerId },
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          seller: { select: { id: true, name: true, email: true } },
+          createdBy: { select: { id: true, name: true } },
+          _count: { select: { entries: true } },
+        },
+      }),
+    ]);
+    const sellers = await prisma.user.findMany({
+      where: { id: { in: balances.map((b) => b.sellerId) } },
+      select: { id: true, name: true, email: true },
+    });
+
+    return new Response(
+      JSON.stringify({
+        pending: balances
+          .map((b) => ({
+            seller: sellers.find((s) => s.id === b.sellerId),
+            amount: b._sum.amount ?? 0,
+            entries: b._count,
+          }))
+          .sort((a, b) => b.amount - a.amount),
+        items,
+        page,
+        limit,
+        total,
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/payouts - Liquidar el período (un pago por vendedor con saldo a favor)
+export async function POST(req: NextRequest) {
+  return withIdempotency(req, () => createPayouts(req));
+}
+
+async function createPayouts(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const body = schema.parse(await req.json().catch(() => ({})));
+
+    const payouts = await prisma.$transaction((tx) =>
+      settlePayouts(tx, {
+        to: body.to ?? new Date(),
+        from: body.from,
+        sellerIds: body.sellerIds,
+        notes: body.notes,
+        createdById: user.id,
+      })
+    );
+
+    return new Response(
+      JSON.stringify({
+        items: payouts,
+        total: payouts.reduce((sum, p) => sum + p.amount, 0),
+      }),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof PayoutError) {
+      return new Response(
+        JSON.stringify({ error: err.reason }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// El código no se edita: los pedidos guardan el código de cada parche
+const UpdateSchema = z.object({
+  kind: z.enum(["NAME", "NUMBER", "PATCH", "SPONSOR"]).optional(),
+  label: z.string().trim().min(2).max(80).optional(),
+  price: z.coerce.number().int().min(0).optional(),
+  active: z.boolean().optional(),
+  leagues: z.array(z.string().trim().min(1).max(50)).optional(),
+  qualities: z.array(z.enum(["FAN", "PLAYER_VERSION"])).optional(),
+});
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const data = UpdateSchema.parse(await req.json());
+
+    const existing = await prisma.personalizationOption.findUnique({
+      where: { id },
+    });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const updated = await prisma.personalizationOption.update({
+      where: { id },
+      data,
+    });
+    return new Response(
+      JSON.stringify(updated),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const existing = await prisma.personalizationOption.findUnique({
+      where: { id },
+    });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    await prisma.personalizationOption.delete({ where: { id } });
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,89 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// ===== Schemas =====
+const KindEnum = z.enum(["NAME", "NUMBER", "PATCH", "SPONSOR"]);
+const ProductQuality = z.enum(["FAN", "PLAYER_VERSION"]);
+
+const CreateSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(2)
+    .max(40)
+    .transform((v) => v.toUpperCase())
+    .pipe(z.string().regex(/^[A-Z0-9_]+$/, "Sólo A-Z, 0-9 y _")),
+  kind: KindEnum,
+  label: z.string().trim().min(2).max(80),
+  price: z.coerce.number().int().min(0), // Gs
+  active: z.boolean().default(true),
+  leagues: z.array(z.string().trim().min(1).max(50)).default([]),
+  qualities: z.array(ProductQuality).default([]),
+});
+
+// GET /api/admin/personalization - Catálogo completo (incluye inactivas)
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { searchParams } = new URL(req.url);
+    const kind = KindEnum.optional().parse(
+      searchParams.get("kind") ?? undefined
+    );
+
+    const items = await prisma.personalizationOption.findMany({
+      where: kind ? { kind } : {},
+      orderBy: [{ kind: "asc" }, { label: "asc" }],
+    });
+
+    return new Response(
+      JSON.stringify({ items }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/personalization - Crear opción
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const data = CreateSchema.parse(await req.json());
+
+    const created = await prisma.personalizationOption.create({ data });
+
+    return new Response(
+      JSON.stringify(created),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return new Response(
+        JSON.stringify({ error: "CONFLICT", message: "El código ya existe." }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import {
+  COUNTED_REDEMPTION,
+  PromotionFields,
+  promotionRuleError,
+} from "@/lib/promotions";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// Para PATCH todos los campos son opcionales (sin defaults)
+const UpdateSchema = PromotionFields.extend({
+  leagues: PromotionFields.shape.leagues.unwrap().optional(),
+  kits: PromotionFields.shape.kits.unwrap().optional(),
+  qualities: PromotionFields.shape.qualities.unwrap().optional(),
+  productIds: PromotionFields.shape.productIds.unwrap().optional(),
+  value: PromotionFields.shape.value.unwrap().optional(),
+  active: PromotionFields.shape.active.unwrap().optional(),
+}).partial();
+
+// GET /api/admin/promotions/:id - Detalle con sus usos (sin pedidos cancelados)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const promotion = await prisma.promotion.findUnique({
+      where: { id },
+      include: {
+        redemptions: {
+          where: COUNTED_REDEMPTION,
+          orderBy: { createdAt: "desc" },
+          select: {
+            id: true,
+            code: true,
+            phone: true,
+            amount: true,
+            createdAt: true,
+            order: {
+              select: { id: true, name: true, status: true, totalPrice: true },
+            },
+          },
+        },
+      },
+    });
+    if (!promotion) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const discountGiven = promotion.redemptions.reduce(
+      (sum, r) => sum + r.amount,
+      0
+    );
+    return new Response(
+      JSON.stringify({
+        ...promotion,
+        redemptionsCount: promotion.redemptions.length,
+        discountGiven,
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const data = UpdateSchema.parse(await req.json());
+
+    const existing = await prisma.promotion.findUnique({ where: { id } });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const ruleError = promotionRuleError({
+      type: data.type ?? existing.type,
+      value: data.value ?? existing.value,
+      buyQuantity:
+        data.buyQuantity !== undefined ? data.buyQuantity : existing.buyQuantity,
+      getQuantity:
+        data.getQuantity !== undefined ? data.getQuantity : existing.getQuantity,
+      startsAt: data.startsAt !== undefined ? data.startsAt : existing.startsAt,
+      endsAt: data.endsAt !== undefined ? data.endsAt : existing.endsAt,
+    });
+    if (ruleError) {
+      return new Response(
+        JSON.stringify({ error: "BAD_REQUEST", message: ruleError }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const updated = await prisma.promotion.update({ where: { id }, data });
+    return new Response(
+      JSON.stringify(updated),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return new Response(
+        JSON.stringify({ error: "CONFLICT", message: "El código ya existe." }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+// DELETE /api/admin/promotions/:id - Sólo si nunca se usó (si no, desactivar)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const existing = await prisma.promotion.findUnique({
+      where: { id },
+      select: { id: true, _count: { select: { redemptions: true } } },
+    });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    if (existing._count.redemptions > 0) {
+      return new Response(
+        JSON.stringify({
+          error: "IN_USE",
+          message: "La promoción ya fue usada; desactivala con active=false.",
+        }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+
+    await prisma.promotion.delete({ where: { id } });
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,101 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import {
+  COUNTED_REDEMPTION,
+  PromotionFields,
+  promotionRuleError,
+} from "@/lib/promotions";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/admin/promotions - Listado con usos y total descontado por código
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { searchParams } = new URL(req.url);
+    const active = searchParams.get("active");
+
+    const where: Prisma.PromotionWhereInput = {};
+    if (active === "true" || active === "false") where.active = active === "true";
+
+    const [promotions, stats] = await Promise.all([
+      prisma.promotion.findMany({ where, orderBy: { createdAt: "desc" } }),
+      prisma.promotionRedemption.groupBy({
+        by: ["promotionId"],
+        where: COUNTED_REDEMPTION,
+        _count: { _all: true },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const items = promotions.map((p) => {
+      const s = stats.find((x) => x.promotionId === p.id);
+      return {
+        ...p,
+        redemptions: s?._count._all ?? 0,
+        discountGiven: s?._sum.amount ?? 0,
+      };
+    });
+
+    return new Response(
+      JSON.stringify({ items }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/promotions - Crear cupón o promoción automática
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const data = PromotionFields.parse(await req.json());
+
+    const ruleError = promotionRuleError({
+      ...data,
+      buyQuantity: data.buyQuantity ?? null,
+      getQuantity: data.getQuantity ?? null,
+      startsAt: data.startsAt ?? null,
+      endsAt: data.endsAt ?? null,
+    });
+    if (ruleError) {
+      return new Response(
+        JSON.stringify({ error: "BAD_REQUEST", message: ruleError }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const created = await prisma.promotion.create({ data });
+    return new Response(
+      JSON.stringify(created),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return new Response(
+        JSON.stringify({ error: "CONFLICT", message: "El código ya existe." }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import { PurchaseError, payPurchaseCost } from "@/lib/purchasing";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z.object({
+  paidAt: z.coerce.date().optional(),
+});
+
+// POST /api/admin/purchase-batches/:id/costs/:costId/pay - Registrar el egreso
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; costId: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const { id, costId } = await params;
+    const { paidAt } = schema.parse(await req.json().catch(() => ({})));
+
+    const cost = await prisma.$transaction((tx) =>
+      payPurchaseCost(tx, { batchId: id, costId, paidById: user.id, paidAt })
+    );
+    return new Response(
+      JSON.stringify(cost),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof PurchaseError) {
+      return new Response(
+        JSON.stringify({ error: err.reason }),
+        withCORS(
+          { status: err.reason === "COST_NOT_FOUND" ? 404 : 409 },
+          origin
+        )
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// DELETE /api/admin/purchase-batches/:id/costs/:costId - Sólo costos sin pagar
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string; costId: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id, costId } = await params;
+
+    const cost = await prisma.purchaseBatchCost.findFirst({
+      where: { id: costId, batchId: id },
+      select: { transactionId: true, batch: { select: { status: true } } },
+    });
+    if (!cost) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    if (cost.transactionId) {
+      return new Response(
+        JSON.stringify({
+          error: "ALREADY_PAID",
+          message: "El costo ya tiene un egreso registrado.",
+        }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    if (cost.batch.status === "RECEIVED") {
+      return new Response(
+        JSON.stringify({ error: "BATCH_LOCKED" }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+
+    await prisma.purchaseBatchCost.delete({ where: { id: costId } });
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import {
+  PurchaseCostSchema,
+  PurchaseError,
+  costInGs,
+  payPurchaseCost,
+} from "@/lib/purchasing";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// Si ya se pagó, se registra el egreso en el mismo paso
+const PaidSchema = z.object({
+  paid: z.boolean().default(false),
+  paidAt: z.coerce.date().optional(),
+});
+
+// POST /api/admin/purchase-batches/:id/costs - Agregar un costo al lote
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const body = await req.json();
+    const cost = PurchaseCostSchema.parse(body);
+    const { paid, paidAt } = PaidSchema.parse(body);
+
+    const created = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT 1 FROM "PurchaseBatch" WHERE "id" = ${id} FOR UPDATE`;
+      const batch = await tx.purchaseBatch.findUnique({
+        where: { id },
+        select: { status: true },
+      });
+      if (!batch) throw new PurchaseError("BATCH_NOT_FOUND");
+      // Un lote recibido ya fijó sus costos unitarios
+      if (batch.status === "RECEIVED" || batch.status === "CANCELLED") {
+        throw new PurchaseError("BATCH_LOCKED");
+      }
+
+      const row = await tx.purchaseBatchCost.create({
+        data: { ...cost, ...costInGs(cost), batchId: id },
+      });
+      if (!paid) return row;
+      return payPurchaseCost(tx, {
+        batchId: id,
+        costId: row.id,
+        paidById: user.id,
+        paidAt,
+      });
+    });
+
+    return new Response(
+      JSON.stringify(created),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof PurchaseError) {
+      return new Response(
+        JSON.stringify({ error: err.reason }),
+        withCORS(
+          { status: err.reason === "BATCH_NOT_FOUND" ? 404 : 409 },
+          origin
+        )
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
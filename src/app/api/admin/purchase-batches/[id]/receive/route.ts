@@ -0,0 +1,44 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { PurchaseError, receivePurchaseBatch } from "@/lib/purchasing";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// POST /api/admin/purchase-batches/:id/receive - Ingresar el lote al stock
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const result = await prisma.$transaction((tx) =>
+      receivePurchaseBatch(tx, id)
+    );
+    return new Response(
+      JSON.stringify(result),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof PurchaseError) {
+      return new Response(
+        JSON.stringify({ error: err.reason }),
+        withCORS(
+          { status: err.reason === "BATCH_NOT_FOUND" ? 404 : 409 },
+          origin
+        )
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,143 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { z } from "zod";
+import {
+  PurchaseError,
+  PurchaseItemsSchema,
+  allocateLandedCost,
+  resolvePurchaseItems,
+} from "@/lib/purchasing";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const UpdateSchema = z.object({
+  supplierId: z.string().min(1).optional(),
+  reference: z.string().trim().max(80).nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  // RECEIVED sólo vía POST .../receive
+  status: z.enum(["DRAFT", "ORDERED", "CANCELLED"]).optional(),
+  items: PurchaseItemsSchema.optional(), // reemplaza las líneas
+});
+
+// GET /api/admin/purchase-batches/:id - Detalle con costo unitario estimado
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const batch = await prisma.purchaseBatch.findUnique({
+      where: { id },
+      include: {
+        supplier: true,
+        items: {
+          include: {
+            product: { select: { title: true, imageUrl: true } },
+            variant: { select: { name: true, sku: true } },
+          },
+        },
+        costs: { include: { transaction: true }, orderBy: { createdAt: "asc" } },
+      },
+    });
+    if (!batch) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    // Antes de recibirlo, el costo unitario se calcula con los costos actuales
+    const totalCost = batch.costs.reduce((sum, c) => sum + c.amountGs, 0);
+    const estimated = allocateLandedCost(batch.items, totalCost);
+    return new Response(
+      JSON.stringify({
+        ...batch,
+        items: batch.items.map((item, i) => ({
+          ...item,
+          landedUnitCost: item.landedUnitCost ?? estimated[i],
+        })),
+        units: batch.items.reduce((sum, i) => sum + i.quantity, 0),
+        totalCost,
+        paidCost: batch.costs
+          .filter((c) => c.transactionId)
+          .reduce((sum, c) => sum + c.amountGs, 0),
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+// PATCH /api/admin/purchase-batches/:id - Editar mientras no se haya recibido
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const { items, ...data } = UpdateSchema.parse(await req.json());
+
+    const updated = await prisma.$transaction(async (tx) => {
+      await tx.$executeRaw`SELECT 1 FROM "PurchaseBatch" WHERE "id" = ${id} FOR UPDATE`;
+      const existing = await tx.purchaseBatch.findUnique({
+        where: { id },
+        select: { status: true, orderedAt: true },
+      });
+      if (!existing) throw new PurchaseError("BATCH_NOT_FOUND");
+      if (existing.status === "RECEIVED" || existing.status === "CANCELLED") {
+        throw new PurchaseError("BATCH_LOCKED");
+      }
+
+      if (items) {
+        const resolved = await resolvePurchaseItems(tx, items);
+        await tx.purchaseBatchItem.deleteMany({ where: { batchId: id } });
+        await tx.purchaseBatchItem.createMany({
+          data: resolved.map((item) => ({ ...item, batchId: id })),
+        });
+      }
+
+      return tx.purchaseBatch.update({
+        where: { id },
+        data: {
+          ...data,
+          ...(data.status === "ORDERED" &&
+            !existing.orderedAt && { orderedAt: new Date() }),
+        },
+        include: { items: true, costs: true },
+      });
+    });
+
+    return new Response(
+      JSON.stringify(updated),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof PurchaseError) {
+      const status =
+        err.reason === "BATCH_NOT_FOUND" ? 404 : err.reason === "BATCH_LOCKED" ? 409 : 400;
+      return new Response(
+        JSON.stringify({ error: err.reason, items: err.items }),
+        withCORS({ status }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
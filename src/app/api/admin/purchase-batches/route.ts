@@ -0,0 +1,131 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import {
+  PurchaseCostSchema,
+  PurchaseError,
+  PurchaseItemsSchema,
+  costInGs,
+  resolvePurchaseItems,
+} from "@/lib/purchasing";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const StatusEnum = z.enum(["DRAFT", "ORDERED", "RECEIVED", "CANCELLED"]);
+
+const CreateSchema = z.object({
+  supplierId: z.string().min(1),
+  reference: z.string().trim().max(80).nullable().optional(),
+  notes: z.string().trim().max(1000).nullable().optional(),
+  status: z.enum(["DRAFT", "ORDERED"]).default("DRAFT"),
+  items: PurchaseItemsSchema.default([]),
+  costs: z.array(PurchaseCostSchema).max(50).default([]),
+});
+
+// GET /api/admin/purchase-batches - Lotes de compra con sus totales
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { searchParams } = new URL(req.url);
+    const page = Math.max(1, Number(searchParams.get("page") || 1));
+    const limit = Math.min(50, Number(searchParams.get("limit") || 20));
+    const status = StatusEnum.safeParse(searchParams.get("status"));
+    const supplierId = searchParams.get("supplierId") || undefined;
+
+    const where: Prisma.PurchaseBatchWhereInput = {};
+    if (status.success) where.status = status.data;
+    if (supplierId) where.supplierId = supplierId;
+
+    const [total, batches] = await Promise.all([
+      prisma.purchaseBatch.count({ where }),
+      prisma.purchaseBatch.findMany({
+        where,
+        orderBy: { createdAt: "desc" },
+        skip: (page - 1) * limit,
+        take: limit,
+        include: {
+          supplier: { select: { id: true, name: true } },
+          items: { select: { quantity: true } },
+          costs: { select: { amountGs: true, transactionId: true } },
+        },
+      }),
+    ]);
+
+    const items = batches.map(({ items, costs, ...batch }) => ({
+      ...batch,
+      units: items.reduce((sum, i) => sum + i.quantity, 0),
+      totalCost: costs.reduce((sum, c) => sum + c.amountGs, 0),
+      paidCost: costs
+        .filter((c) => c.transactionId)
+        .reduce((sum, c) => sum + c.amountGs, 0),
+    }));
+
+    return new Response(
+      JSON.stringify({ items, page, limit, total }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// POST /api/admin/purchase-batches - Crear lote (variantes y costos)
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["admin"]);
+    const { items, costs, ...data } = CreateSchema.parse(await req.json());
+
+    const supplier = await prisma.supplier.findUnique({
+      where: { id: data.supplierId },
+      select: { id: true },
+    });
+    if (!supplier) {
+      return new Response(
+        JSON.stringify({ error: "SUPPLIER_NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const resolved = await resolvePurchaseItems(prisma, items);
+    const created = await prisma.purchaseBatch.create({
+      data: {
+        ...data,
+        orderedAt: data.status === "ORDERED" ? new Date() : null,
+        createdById: user.id,
+        items: { create: resolved },
+        costs: {
+          create: costs.map((c) => ({ ...c, ...costInGs(c) })),
+        },
+      },
+      include: { items: true, costs: true },
+    });
+
+    return new Response(
+      JSON.stringify(created),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof PurchaseError) {
+      return new Response(
+        JSON.stringify({ error: err.reason, items: err.items }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import {
+  STORE_SETTINGS_ID,
+  StoreSettingsSchema,
+  getStoreSettings,
+} from "@/lib/settings";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/admin/settings - Datos del local (encabezado de comprobantes)
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const settings = await getStoreSettings(prisma);
+    return new Response(
+      JSON.stringify(settings),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
+
+// PUT /api/admin/settings - Reemplaza los datos del local; los parámetros
+// de negocio que no vienen no se tocan
+export async function PUT(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const data = StoreSettingsSchema.parse(await req.json());
+
+    const settings = await prisma.storeSettings.upsert({
+      where: { id: STORE_SETTINGS_ID },
+      create: { id: STORE_SETTINGS_ID, ...data },
+      update: data,
+    });
+
+    return new Response(
+      JSON.stringify(settings),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
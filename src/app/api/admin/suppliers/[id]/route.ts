@@ -0,0 +1,97 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { Prisma } from "@prisma/client";
+import { SupplierFields } from "@/lib/purchasing";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// Para PATCH todos los campos son opcionales (sin defaults)
+const UpdateSchema = SupplierFields.extend({
+  active: SupplierFields.shape.active.unwrap().optional(),
+}).partial();
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+    const data = UpdateSchema.parse(await req.json());
+
+    const existing = await prisma.supplier.findUnique({ where: { id } });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const updated = await prisma.supplier.update({ where: { id }, data });
+    return new Response(
+      JSON.stringify(updated),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    if (
+      err instanceof Prisma.PrismaClientKnownRequestError &&
+      err.code === "P2002"
+    ) {
+      return new Response(
+        JSON.stringify({ error: "CONFLICT", message: "El proveedor ya existe." }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+// DELETE /api/admin/suppliers/:id - Sólo sin lotes (si no, desactivar)
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    await requireRole(req, ["admin"]);
+    const { id } = await params;
+
+    const existing = await prisma.supplier.findUnique({
+      where: { id },
+      select: { id: true, _count: { select: { batches: true } } },
+    });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    if (existing._count.batches > 0) {
+      return new Response(
+        JSON.stringify({
+          error: "IN_USE",
+          message: "El proveedor tiene lotes; desactivalo con active=false.",
+        }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+
+    await prisma.supplier.delete({ where: { id } });
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,169 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { v2 as cloudinary } from "cloudinary";
+import { z } from "zod";
+import { OrderTransitionError } from "@/lib/orderStatus";
+import { PaymentError } from "@/lib/payments";
+import { AssignmentError, completeAssignment } from "@/lib/deliveries";
+
+export const runtime = "nodejs";
+
+cloudinary.config({
+  cloud_name: process.env.CLOUDINARY_CLOUD_NAME,
+  api_key: process.env.CLOUDINARY_API_KEY,
+  api_secret: process.env.CLOUDINARY_API_SECRET,
+});
+
+const MAX_BYTES = 5 * 1024 * 1024;
+const ALLOWED = ["image/jpeg", "image/png", "image/webp"];
+const MAX_PHOTOS = 4;
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z.object({
+  // lo cobrado en mano; por defecto, el saldo del pedido
+  amountCollected: z.coerce.number().int().min(0).optional(),
+  paymentMethod: z.enum(["CASH", "BANK_TRANSFER", "QR", "CARD"]).default("CASH"),
+  notes: z.string().trim().max(500).optional(),
+});
+
+// POST /api/courier/deliveries/:id/deliver - Entregado (multipart con "photos" como prueba de entrega)
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  // Fuera del try: si la entrega falla, las fotos ya subidas se borran
+  const uploaded: Array<{ imageUrl: string; imagePublicId: string; order: number }> = [];
+  try {
+    const user = await requireRole(req, ["courier"]);
+    const { id } = await params;
+
+    const form = await req.formData();
+    const body = schema.parse({
+      amountCollected: form.get("amountCollected") || undefined,
+      paymentMethod: form.get("paymentMethod") || undefined,
+      notes: form.get("notes") || undefined,
+    });
+
+    const files = form.getAll("photos").filter((f) => f instanceof File);
+    if (files.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "PROOF_REQUIRED" }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+    if (files.length > MAX_PHOTOS) {
+      return new Response(
+        JSON.stringify({ error: "TOO_MANY_FILES", max: MAX_PHOTOS }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+    for (const file of files) {
+      if (file.size > MAX_BYTES) {
+        return new Response(
+          JSON.stringify({ error: "FILE_TOO_LARGE", name: file.name }),
+          withCORS({ status: 413 }, origin)
+        );
+      }
+      if (!ALLOWED.includes(file.type || "")) {
+        return new Response(
+          JSON.stringify({ error: "INVALID_TYPE", name: file.name }),
+          withCORS({ status: 400 }, origin)
+        );
+      }
+    }
+
+    // Antes de subir fotos, que la entrega sea del repartidor y esté en curso
+    const current = await prisma.deliveryAssignment.findFirst({
+      where: { id, courierId: user.id },
+      select: { status: true },
+    });
+    if (!current) {
+      return new Response(
+        JSON.stringify({ error: "ASSIGNMENT_NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    if (current.status !== "PICKED_UP") {
+      return new Response(
+        JSON.stringify({
+          error: current.status === "ASSIGNED" ? "NOT_PICKED_UP" : "ASSIGNMENT_CLOSED",
+        }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+
+    for (const [i, file] of files.entries()) {
+      const bytes = Buffer.from(await file.arrayBuffer());
+      const dataUri = `data:${file.type};base64,${bytes.toString("base64")}`;
+      const { secure_url, public_id } = await cloudinary.uploader.upload(
+        dataUri,
+        { folder: "hincha/deliveries", resource_type: "image" }
+      );
+      uploaded.push({ imageUrl: secure_url, imagePublicId: public_id, order: i });
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const { assignment, payment } = await completeAssignment(tx, {
+        assignmentId: id,
+        courierId: user.id,
+        amountCollected: body.amountCollected,
+        method: body.paymentMethod,
+        notes: body.notes,
+      });
+      await tx.deliveryProofImage.createMany({
+        data: uploaded.map((img) => ({ ...img, assignmentId: assignment.id })),
+      });
+      return {
+        ...assignment,
+        proofImages: await tx.deliveryProofImage.findMany({
+          where: { assignmentId: assignment.id },
+          orderBy: { order: "asc" },
+        }),
+        payment,
+      };
+    });
+
+    return new Response(
+      JSON.stringify(result),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    await Promise.all(
+      uploaded.map((img) =>
+        cloudinary.uploader.destroy(img.imagePublicId).catch(() => {})
+      )
+    );
+    if (err instanceof AssignmentError) {
+      return new Response(
+        JSON.stringify({ error: err.reason, balance: err.balance }),
+        withCORS(
+          { status: err.reason === "ASSIGNMENT_NOT_FOUND" ? 404 : 409 },
+          origin
+        )
+      );
+    }
+    if (err instanceof OrderTransitionError) {
+      return new Response(
+        JSON.stringify(err),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    if (err instanceof PaymentError) {
+      return new Response(
+        JSON.stringify({ error: err.reason, balance: err.balance }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// POST /api/courier/deliveries/:id/pickup - Retiré el paquete del local
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["courier"]);
+    const { id } = await params;
+
+    // Condicional: sólo una asignación propia que siga ASSIGNED
+    const { count } = await prisma.deliveryAssignment.updateMany({
+      where: { id, courierId: user.id, status: "ASSIGNED" },
+      data: { status: "PICKED_UP", pickedUpAt: new Date() },
+    });
+    const assignment = await prisma.deliveryAssignment.findFirst({
+      where: { id, courierId: user.id },
+    });
+    if (!assignment) {
+      return new Response(
+        JSON.stringify({ error: "ASSIGNMENT_NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    if (count === 0) {
+      return new Response(
+        JSON.stringify({ error: "ASSIGNMENT_CLOSED", status: assignment.status }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+
+    return new Response(
+      JSON.stringify(assignment),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+import { DeliveryAssignmentStatus, Prisma } from "@prisma/client";
+import { ACTIVE_PAYMENT, summarizePayments } from "@/lib/payments";
+import { ACTIVE_ASSIGNMENT } from "@/lib/deliveries";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/courier/deliveries - Mis entregas (pendientes por defecto) en orden de recorrido
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["courier"]);
+    const { searchParams } = new URL(req.url);
+    const status = (searchParams.get("status") || "").toUpperCase();
+
+    const where: Prisma.DeliveryAssignmentWhereInput = { courierId: user.id };
+    if (status in DeliveryAssignmentStatus) {
+      where.status = status as DeliveryAssignmentStatus;
+    } else {
+      Object.assign(where, ACTIVE_ASSIGNMENT);
+    }
+
+    const items = await prisma.deliveryAssignment.findMany({
+      where,
+      orderBy: [{ sequence: "asc" }, { assignedAt: "asc" }],
+      take: 200,
+      include: {
+        proofImages: { orderBy: { order: "asc" } },
+        order: {
+          select: {
+            id: true,
+            trackingCode: true,
+            status: true,
+            name: true,
+            phone: true,
+            address: true,
+            notes: true,
+            lat: true,
+            lng: true,
+            totalPrice: true,
+            payments: { where: ACTIVE_PAYMENT, select: { amount: true } },
+            items: {
+              select: { title: true, variantName: true, quantity: true },
+            },
+          },
+        },
+      },
+    });
+
+    return new Response(
+      JSON.stringify({
+        items: items.map(({ order: { payments, ...order }, ...a }) => ({
+          ...a,
+          order: {
+            ...order,
+            // lo que hay que cobrar al entregar
+            balance: Math.max(
+              0,
+              summarizePayments(order.totalPrice, payments).balance
+            ),
+          },
+        })),
+        cashCollected: items.reduce((sum, a) => sum + a.cashCollected, 0),
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
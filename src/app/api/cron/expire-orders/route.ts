@@ -0,0 +1,36 @@
+import { NextRequest } from "next/server";
+import { withCORS } from "@/lib/cors";
+import { isCronAuthorized } from "@/lib/cron";
+import { expireStaleOrders } from "@/lib/expiry";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// POST /api/cron/expire-orders - Cancela pedidos PENDING vencidos (EXPIRED)
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  if (!isCronAuthorized(req)) {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+
+  try {
+    const report = await expireStaleOrders();
+    return new Response(
+      JSON.stringify({ ...report, expiredCount: report.expired.length }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    console.error("Expire orders cron error:", message);
+    return new Response(
+      JSON.stringify({ error: "INTERNAL_ERROR", message }),
+      withCORS({ status: 500 }, origin)
+    );
+  }
+}
+
+// Vercel Cron invoca los endpoints con GET
+export const GET = POST;
@@ -0,0 +1,55 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { z } from "zod";
+import { DeliveryError, quoteDelivery } from "@/lib/delivery";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const schema = z.object({
+  deliveryMethod: z.enum(["DELIVERY", "PICKUP"]).default("DELIVERY"),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+});
+
+// POST /api/delivery/quote - Vista previa del costo de envío (mismo cálculo que POST /api/orders)
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    const { deliveryMethod, lat, lng } = schema.parse(await req.json());
+    const quote = await quoteDelivery(prisma, {
+      method: deliveryMethod,
+      lat,
+      lng,
+    });
+
+    return new Response(
+      JSON.stringify({
+        available: true,
+        deliveryMethod: quote.method,
+        deliveryFee: quote.fee,
+        zone: quote.zone,
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    // Sin cobertura no es un error del cliente: el storefront ofrece retiro
+    if (err instanceof DeliveryError) {
+      return new Response(
+        JSON.stringify({
+          available: false,
+          reason: err.reason,
+          pickupAvailable: true,
+        }),
+        withCORS({ status: 200 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { AuthUser, requireAuth } from "@/lib/authz";
+import { AddressFields, hasValidPin, setDefaultAddress } from "@/lib/addresses";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// Para PATCH todos los campos son opcionales (sin defaults)
+const UpdateSchema = AddressFields.extend({
+  isDefault: AddressFields.shape.isDefault.unwrap().optional(),
+}).partial();
+
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  let user: AuthUser;
+  try {
+    user = await requireAuth(req);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const { isDefault, ...data } = UpdateSchema.parse(await req.json());
+
+    const existing = await prisma.address.findFirst({
+      where: { id, userId: user.id },
+    });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    const pin = {
+      lat: data.lat !== undefined ? data.lat : existing.lat,
+      lng: data.lng !== undefined ? data.lng : existing.lng,
+    };
+    if (!hasValidPin(pin)) {
+      return new Response(
+        JSON.stringify({ error: "BAD_REQUEST", message: "lat y lng van juntos" }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    // Quitar la marca de predeterminada se hace eligiendo otra
+    const updated = await prisma.$transaction(async (tx) => {
+      const address = await tx.address.update({ where: { id }, data });
+      return isDefault ? setDefaultAddress(tx, user.id, id) : address;
+    });
+    return new Response(
+      JSON.stringify(updated),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
+
+// DELETE /api/me/addresses/:id - Si era la predeterminada, pasa a serlo la más reciente
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  let user: AuthUser;
+  try {
+    user = await requireAuth(req);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const existing = await prisma.address.findFirst({
+      where: { id, userId: user.id },
+      select: { isDefault: true },
+    });
+    if (!existing) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    await prisma.$transaction(async (tx) => {
+      await tx.address.delete({ where: { id } });
+      if (!existing.isDefault) return;
+      const next = await tx.address.findFirst({
+        where: { userId: user.id },
+        orderBy: { updatedAt: "desc" },
+        select: { id: true },
+      });
+      if (next) await setDefaultAddress(tx, user.id, next.id);
+    });
+    return new Response(null, withCORS({ status: 204 }, origin));
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { AuthUser, requireAuth } from "@/lib/authz";
+import {
+  AddressError,
+  AddressFields,
+  MAX_ADDRESSES,
+  hasValidPin,
+  setDefaultAddress,
+} from "@/lib/addresses";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/me/addresses - Mis direcciones (la predeterminada primero)
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  let user: AuthUser;
+  try {
+    user = await requireAuth(req);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+
+  const items = await prisma.address.findMany({
+    where: { userId: user.id },
+    orderBy: [{ isDefault: "desc" }, { updatedAt: "desc" }],
+  });
+  return new Response(
+    JSON.stringify({ items }),
+    withCORS({ status: 200 }, origin)
+  );
+}
+
+// POST /api/me/addresses - Guardar una dirección (la primera queda predeterminada)
+export async function POST(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  let user: AuthUser;
+  try {
+    user = await requireAuth(req);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+
+  try {
+    const { isDefault, ...data } = AddressFields.parse(await req.json());
+    if (!hasValidPin(data)) {
+      return new Response(
+        JSON.stringify({ error: "BAD_REQUEST", message: "lat y lng van juntos" }),
+        withCORS({ status: 400 }, origin)
+      );
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const count = await tx.address.count({ where: { userId: user.id } });
+      if (count >= MAX_ADDRESSES) throw new AddressError("TOO_MANY_ADDRESSES");
+
+      const address = await tx.address.create({
+        data: { ...data, userId: user.id },
+      });
+      return isDefault || count === 0
+        ? setDefaultAddress(tx, user.id, address.id)
+        : address;
+    });
+
+    return new Response(
+      JSON.stringify(created),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    if (err instanceof AddressError) {
+      return new Response(
+        JSON.stringify({ error: err.reason, max: MAX_ADDRESSES }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { AuthUser, requireAuth } from "@/lib/authz";
+import { z } from "zod";
+import {
+  CheckoutSchema,
+  checkoutErrorResponse,
+  placeOrder,
+} from "@/lib/checkout";
+import { buildReorderCart } from "@/lib/reorder";
+import { withIdempotency } from "@/lib/idempotency";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// Los datos de entrega son opcionales: por defecto, los del pedido original
+const schema = z.object({
+  placeOrder: z.boolean().default(false), // false = sólo devolver el carrito
+  addressId: z.string().min(1).optional(),
+  name: z.string().min(2).optional(),
+  phone: z.string().min(6).optional(),
+  address: z.string().min(5).optional(),
+  notes: z.string().optional(),
+  couponCode: z.string().trim().min(1).max(40).optional(),
+  deliveryMethod: z.enum(["DELIVERY", "PICKUP"]).optional(),
+  lat: z.number().min(-90).max(90).optional(),
+  lng: z.number().min(-180).max(180).optional(),
+});
+
+// POST /api/me/orders/:id/reorder - Repetir un pedido con precios y stock actuales
+export async function POST(
+  req: NextRequest,
+  ctx: { params: Promise<{ id: string }> }
+) {
+  return withIdempotency(req, () => reorder(req, ctx));
+}
+
+async function reorder(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  let user: AuthUser;
+  try {
+    user = await requireAuth(req);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const { placeOrder: place, ...overrides } = schema.parse(
+      await req.json().catch(() => ({}))
+    );
+
+    const previous = await prisma.order.findFirst({
+      where: { id, userId: user.id },
+      select: {
+        id: true,
+        name: true,
+        phone: true,
+        address: true,
+        lat: true,
+        lng: true,
+        deliveryMethod: true,
+      },
+    });
+    if (!previous) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const { lines, changes } = await buildReorderCart(prisma, previous.id);
+    const cart = {
+      items: lines,
+      changes,
+      subtotal: lines.reduce((sum, l) => sum + l.unitPrice * l.qty, 0),
+    };
+    if (!place) {
+      return new Response(
+        JSON.stringify(cart),
+        withCORS({ status: 200 }, origin)
+      );
+    }
+    if (lines.length === 0) {
+      return new Response(
+        JSON.stringify({ error: "NOTHING_TO_REORDER", changes }),
+        withCORS({ status: 409 }, origin)
+      );
+    }
+
+    // Con una dirección guardada no se arrastra la entrega del pedido viejo
+    const input = CheckoutSchema.parse({
+      ...(!overrides.addressId && {
+        name: previous.name,
+        phone: previous.phone,
+        address: previous.address,
+        lat: previous.lat ?? undefined,
+        lng: previous.lng ?? undefined,
+        deliveryMethod: previous.deliveryMethod,
+      }),
+      ...overrides,
+      items: lines.map((l) => ({
+        productId: l.productId,
+        variantId: l.variantId,
+        qty: l.qty,
+        personalization: l.personalization,
+      })),
+    });
+    const order = await placeOrder(input, user.id);
+
+    return new Response(
+      JSON.stringify({ ...cart, order }),
+      withCORS({ status: 201 }, origin)
+    );
+  } catch (err: unknown) {
+    const known = checkoutErrorResponse(err);
+    if (known) {
+      return new Response(
+        JSON.stringify(known.body),
+        withCORS({ status: known.status }, origin)
+      );
+    }
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
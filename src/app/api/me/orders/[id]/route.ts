@@ -0,0 +1,116 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { AuthUser, requireAuth } from "@/lib/authz";
+import { ACTIVE_PAYMENT, summarizePayments } from "@/lib/payments";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/me/orders/:id - Detalle de uno de mis pedidos (sólo el dueño)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  let user: AuthUser;
+  try {
+    user = await requireAuth(req);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+
+  try {
+    const { id } = await params;
+    const order = await prisma.order.findFirst({
+      where: { id, userId: user.id },
+      select: {
+        id: true,
+        trackingCode: true,
+        status: true,
+        name: true,
+        phone: true,
+        address: true,
+        notes: true,
+        lat: true,
+        lng: true,
+        subtotal: true,
+        extrasTotal: true,
+        discountTotal: true,
+        deliveryMethod: true,
+        deliveryFee: true,
+        totalPrice: true,
+        refundedTotal: true,
+        depositRequired: true,
+        cancelledAt: true,
+        createdAt: true,
+        deliveryZone: { select: { name: true, etaMinutes: true } },
+        discounts: { select: { code: true, description: true, amount: true } },
+        payments: {
+          where: ACTIVE_PAYMENT,
+          orderBy: { paidAt: "asc" },
+          select: { amount: true, method: true, paidAt: true },
+        },
+        items: {
+          select: {
+            id: true,
+            productId: true,
+            variantId: true,
+            variantName: true,
+            title: true,
+            price: true,
+            quantity: true,
+            refundedQuantity: true,
+            backorderedQuantity: true,
+            imageUrl: true,
+            personalizations: {
+              orderBy: { unitIndex: "asc" },
+              select: {
+                unitIndex: true,
+                name: true,
+                number: true,
+                patches: true,
+                price: true,
+              },
+            },
+          },
+        },
+        statusHistory: {
+          where: { fulfilmentId: null },
+          orderBy: { createdAt: "asc" },
+          select: { toStatus: true, createdAt: true },
+        },
+      },
+    });
+    // Un pedido ajeno responde igual que uno inexistente
+    if (!order) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const { statusHistory, ...rest } = order;
+    return new Response(
+      JSON.stringify({
+        ...rest,
+        ...summarizePayments(order.totalPrice, order.payments),
+        timeline: statusHistory.map((h) => ({
+          status: h.toStatus,
+          at: h.createdAt,
+        })),
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
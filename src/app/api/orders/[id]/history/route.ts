@@ -0,0 +1,62 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireAuth } from "@/lib/authz";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/orders/:id/history - Historial de estados (admin o dueño del pedido)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireAuth(req);
+    const { id } = await params;
+
+    const order = await prisma.order.findUnique({
+      where: { id },
+      select: { id: true, userId: true, status: true },
+    });
+    if (!order) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+    if (user.role !== "admin" && order.userId !== user.id) {
+      return new Response(
+        JSON.stringify({ error: "FORBIDDEN" }),
+        withCORS({ status: 403 }, origin)
+      );
+    }
+
+    const items = await prisma.orderStatusHistory.findMany({
+      where: { orderId: id },
+      orderBy: { createdAt: "asc" },
+      select: {
+        id: true,
+        fromStatus: true,
+        toStatus: true,
+        reason: true,
+        details: true,
+        fulfilment: { select: { id: true, sellerId: true } },
+        createdAt: true,
+        changedBy: { select: { id: true, name: true, role: true } },
+      },
+    });
+
+    return new Response(
+      JSON.stringify({ orderId: order.id, status: order.status, items }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireAuth } from "@/lib/authz";
+import { normalizeTrackingCode } from "@/lib/tracking";
+import { loadOrderDocument, orderNumber, renderOrderPdf } from "@/lib/receipts";
+
+export const runtime = "nodejs";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/orders/:id/receipt.pdf - Comprobante para enviar al cliente.
+// Acceso: dueño del pedido o admin. Un invitado con ?code=<trackingCode>
+// recibe el comprobante sin nombre, teléfono ni dirección (igual que /api/track)
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const { id } = await params;
+    const code = new URL(req.url).searchParams.get("code");
+
+    const document = await loadOrderDocument(prisma, id);
+    if (!document) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    const { order } = document;
+    const byCode =
+      !!code && normalizeTrackingCode(code) === order.trackingCode;
+    const user = await requireAuth(req).catch(() => null);
+    const allowed =
+      !!user && (user.role === "admin" || order.userId === user.id);
+    if (!allowed && !byCode) {
+      return new Response(
+        JSON.stringify({ error: user ? "FORBIDDEN" : "UNAUTHORIZED" }),
+        withCORS({ status: user ? 403 : 401 }, origin)
+      );
+    }
+
+    const pdf = await renderOrderPdf(document, "receipt", {
+      redactCustomer: !allowed,
+    });
+    return new Response(
+      new Uint8Array(pdf),
+      withCORS(
+        {
+          status: 200,
+          headers: {
+            "Content-Type": "application/pdf",
+            "Content-Disposition": `inline; filename="pedido-${orderNumber(order.id)}.pdf"`,
+            "Cache-Control": "private, no-store",
+          },
+        },
+        origin
+      )
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
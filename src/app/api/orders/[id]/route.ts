@@ -2,33 +2,90 @@ import { NextRequest } from "next/server";
 import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { z } from "zod";
-import { requireRole } from "@/lib/authz";
+import { AuthUser, requireAuth, requireRole } from "@/lib/authz";
+import {
+  OrderStatusInput,
+  OrderTransitionError,
+  transitionOrder,
+} from "@/lib/orderStatus";
+import { ACTIVE_PAYMENT, summarizePayments } from "@/lib/payments";
 
-const schema = z.object({ status: z.enum(["pending", "paid", "canceled"]) });
+// Acepta el enum y, por compat, los valores legacy pending/paid/canceled
+const schema = z.object({ status: OrderStatusInput });
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
 }
 
+// GET /api/orders/:id - Detalle completo (dueño del pedido o admin).
+// Los invitados consultan el estado con GET /api/track/:code
 export async function GET(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const origin = req.headers.get("origin");
   const { id } = await params;
+
+  let user: AuthUser;
+  try {
+    user = await requireAuth(req);
+  } catch {
+    return new Response(
+      JSON.stringify({ error: "UNAUTHORIZED" }),
+      withCORS({ status: 401 }, origin)
+    );
+  }
+
   try {
     const order = await prisma.order.findUnique({
       where: { id: id },
       include: {
+        deliveryZone: { select: { id: true, name: true, etaMinutes: true } },
+        discounts: {
+          select: { code: true, description: true, amount: true },
+        },
+        refunds: {
+          orderBy: { createdAt: "asc" },
+          select: { id: true, amount: true, reason: true, createdAt: true },
+        },
+        payments: {
+          where: ACTIVE_PAYMENT,
+          orderBy: { paidAt: "asc" },
+          select: { id: true, amount: true, method: true, paidAt: true },
+        },
+        fulfilments: {
+          orderBy: { createdAt: "asc" },
+          select: {
+            id: true,
+            status: true,
+            subtotal: true,
+            extrasTotal: true,
+            seller: { select: { id: true, name: true } },
+          },
+        },
         items: {
           select: {
             id: true,
+            fulfilmentId: true,
             productId: true,
             variantId: true,
+            variantName: true,
+            sku: true,
             title: true,
             price: true,
             quantity: true,
+            refundedQuantity: true,
             imageUrl: true,
+            personalizations: {
+              select: {
+                unitIndex: true,
+                name: true,
+                number: true,
+                patches: true,
+                price: true,
+              },
+              orderBy: { unitIndex: "asc" },
+            },
           },
         },
       },
@@ -39,8 +96,17 @@ export async function GET(
         withCORS({ status: 404 }, origin)
       );
     }
+    if (user.role !== "admin" && order.userId !== user.id) {
+      return new Response(
+        JSON.stringify({ error: "FORBIDDEN" }),
+        withCORS({ status: 403 }, origin)
+      );
+    }
     return new Response(
-      JSON.stringify(order),
+      JSON.stringify({
+        ...order,
+        ...summarizePayments(order.totalPrice, order.payments),
+      }),
       withCORS({ status: 200 }, origin)
     );
   } catch (err: unknown) {
@@ -58,17 +124,22 @@ export async function PATCH(
 ) {
   const origin = req.headers.get("origin");
   try {
-    await requireRole(req, ["admin"]);
+    const user = await requireRole(req, ["admin"]);
 
     const { status } = schema.parse(await req.json());
 
     const { id } = await params;
 
     const updated = await prisma.$transaction(async (tx) => {
-      // Actualizamos el estado solicitado
-      const order = await tx.order.update({
+      // Valida contra la tabla de transiciones y registra el historial
+      await transitionOrder(tx, {
+        orderId: id,
+        to: status,
+        changedById: user.id,
+      });
+
+      return tx.order.findUniqueOrThrow({
         where: { id: id },
-        data: { status },
         include: {
           items: {
             select: {
@@ -80,21 +151,6 @@ export async function PATCH(
           },
         },
       });
-
-      // Si es "paid", descontar stock de variantes (si aplica)
-      if (status === "paid") {
-        // Restar stock solo de items con variantId
-        for (const it of order.items) {
-          if (it.variantId) {
-            await tx.productVariant.update({
-              where: { id: it.variantId },
-              data: { stock: { decrement: it.quantity } },
-            });
-          }
-        }
-      }
-
-      return order;
     });
 
     return new Response(
@@ -102,6 +158,12 @@ export async function PATCH(
       withCORS({ status: 200 }, origin)
     );
   } catch (err: unknown) {
+    if (err instanceof OrderTransitionError) {
+      return new Response(
+        JSON.stringify(err),
+        withCORS({ status: 409 }, origin)
+      );
+    }
     const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
     return new Response(
       JSON.stringify({ error: "BAD_REQUEST", message }),
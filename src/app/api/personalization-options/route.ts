@@ -0,0 +1,74 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/personalization-options - Opciones activas para el storefront
+// Con ?league= y/o ?quality= devuelve sólo las aplicables a ese producto
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    const url = new URL(req.url);
+    const { league, quality } = z
+      .object({
+        league: z.string().trim().min(1).optional(),
+        quality: z.enum(["FAN", "PLAYER_VERSION"]).optional(),
+      })
+      .parse({
+        league: url.searchParams.get("league") ?? undefined,
+        quality: url.searchParams.get("quality") ?? undefined,
+      });
+
+    const where: Prisma.PersonalizationOptionWhereInput = {
+      active: true,
+      AND: [
+        league
+          ? { OR: [{ leagues: { isEmpty: true } }, { leagues: { has: league } }] }
+          : {},
+        quality
+          ? {
+              OR: [
+                { qualities: { isEmpty: true } },
+                { qualities: { has: quality } },
+              ],
+            }
+          : {},
+      ],
+    };
+
+    const items = await prisma.personalizationOption.findMany({
+      where,
+      orderBy: [{ kind: "asc" }, { price: "asc" }],
+      select: {
+        code: true,
+        kind: true,
+        label: true,
+        price: true,
+        leagues: true,
+        qualities: true,
+      },
+    });
+
+    return new Response(
+      JSON.stringify({ items }),
+      withCORS(
+        { status: 200, headers: { "Content-Type": "application/json" } },
+        origin
+      )
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS(
+        { status: 400, headers: { "Content-Type": "application/json" } },
+        origin
+      )
+    );
+  }
+}
@@ -43,6 +43,7 @@ export async function GET(
             price: true,
             stock: true,
             sku: true,
+            allowBackorder: true,
           },
         },
         ProductImage: {
@@ -87,6 +88,8 @@ const updateSchema = z.object({
   description: z.string().nullable().optional(),
   purchasePrice: z.coerce.number().int().min(0).nullable().optional(),
   purchaseUrl: z.string().url().nullable().optional(),
+  allowBackorder: z.boolean().optional(),
+  backorderLeadDays: z.coerce.number().int().min(1).max(180).nullable().optional(),
   seasonLabel: z.string().max(20).nullable().optional(),
   seasonStart: z.coerce
     .number()
@@ -136,6 +139,8 @@ export async function PUT(
         "description",
         "purchasePrice",
         "purchaseUrl",
+        "allowBackorder",
+        "backorderLeadDays",
         "seasonLabel",
         "seasonStart",
         "kit",
@@ -164,6 +169,12 @@ export async function PUT(
               case "purchaseUrl":
                 data.purchaseUrl = v;
                 break;
+              case "allowBackorder":
+                data.allowBackorder = v === "true";
+                break;
+              case "backorderLeadDays":
+                data.backorderLeadDays = Number(v);
+                break;
               case "seasonLabel":
                 data.seasonLabel = v;
                 break;
@@ -183,6 +194,7 @@ export async function PUT(
               k === "description" ||
               k === "purchasePrice" ||
               k === "purchaseUrl" ||
+              k === "backorderLeadDays" ||
               k === "seasonLabel" ||
               k === "kit" ||
               k === "quality" ||
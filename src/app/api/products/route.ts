@@ -5,6 +5,10 @@ import { z } from "zod";
 import { requireAuth } from "@/lib/auth";
 import { v2 as cloudinary } from "cloudinary";
 import { instagramService } from "@/lib/instagram";
+import { parseSearch, searchProducts } from "@/lib/search";
+import { ProductFilters, productWhere } from "@/lib/catalogFilters";
+import { productFacets } from "@/lib/facets";
+import { Prisma } from "@prisma/client";
 
 // Nos aseguramos Node runtime (subida a Cloudinary necesita Node APIs)
 export const runtime = "nodejs";
@@ -59,6 +63,7 @@ const VariantSchema = z.object({
   name: z.string().min(1),
   stock: z.coerce.number().int().min(0),
   price: z.coerce.number().int().min(0).optional().nullable(),
+  allowBackorder: z.boolean().nullable().optional(), // null = hereda del producto
 });
 
 const BaseSchema = z.object({
@@ -73,6 +78,10 @@ const BaseSchema = z.object({
   purchasePrice: z.coerce.number().int().min(0).optional(),
   purchaseUrl: z.string().url().optional(),
 
+  // encargos (multipart manda "true"/"false")
+  allowBackorder: z.union([z.boolean(), z.stringbool()]).optional(),
+  backorderLeadDays: z.coerce.number().int().min(1).max(180).optional(),
+
   // legacy 'type' → quality
   type: z.enum(["FAN", "PLAYER_VERSION"]).optional(),
 
@@ -115,18 +124,23 @@ export async function GET(req: NextRequest) {
   try {
     const url = new URL(req.url);
     const QuerySchema = z.object({
-      // búsqueda simple
+      // búsqueda por texto (sin acentos, tolera errores de tipeo)
       search: z.string().trim().optional(),
       // filtros nuevos (opcionales)
       kit: KitEnum.optional(),
       quality: ProductQuality.optional(),
       seasonStart: z.coerce.number().int().optional(),
       league: z.string().optional(),
-      // orden y paginación
+      size: z.string().trim().min(1).optional(), // talle con stock
+      minPrice: z.coerce.number().int().min(0).optional(),
+      maxPrice: z.coerce.number().int().min(0).optional(),
+      // conteos por filtro para la barra lateral
+      facets: z.stringbool().default(false),
+      // orden y paginación ("relevance" sólo tiene sentido con search)
       sort: z
         .string()
-        .regex(/^[a-zA-Z_]+:(asc|desc)$/)
-        .default("createdAt:desc"),
+        .regex(/^([a-zA-Z_]+:(asc|desc)|relevance)$/)
+        .optional(),
       page: z.coerce.number().int().min(1).default(1),
       limit: z.coerce.number().int().min(1).max(50).default(12),
     });
@@ -137,34 +151,38 @@ export async function GET(req: NextRequest) {
       quality: url.searchParams.get("quality") ?? undefined,
       seasonStart: url.searchParams.get("seasonStart") ?? undefined,
       league: url.searchParams.get("league") ?? undefined,
+      size: url.searchParams.get("size") ?? undefined,
+      minPrice: url.searchParams.get("minPrice") ?? undefined,
+      maxPrice: url.searchParams.get("maxPrice") ?? undefined,
+      facets: url.searchParams.get("facets") ?? undefined,
       sort: url.searchParams.get("sort") ?? undefined,
       page: url.searchParams.get("page") ?? undefined,
       limit: url.searchParams.get("limit") ?? undefined,
     });
 
-    const { search, kit, quality, seasonStart, league, sort, page, limit } =
-      parsed;
-
-    // Filtros (incluye metadatos nuevos; mantenemos ciertos campos legacy para compat)
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const where: any = {
-      AND: [
-        search && search.length > 0
-          ? {
-              OR: [
-                { title: { contains: search, mode: "insensitive" } },
-                { description: { contains: search, mode: "insensitive" } },
-                { seasonLabel: { contains: search, mode: "insensitive" } },
-              ],
-            }
-          : {},
-        kit ? { kit } : {},
-        quality ? { quality } : {},
-        typeof seasonStart === "number" ? { seasonStart } : {},
-        league ? { league: { contains: league, mode: "insensitive" } } : {},
-      ],
+    const { search, page, limit } = parsed;
+
+    // Filtros (los mismos que usan la búsqueda y las facetas)
+    const filters: ProductFilters = {
+      search: search ? parseSearch(search) : undefined,
+      kit: parsed.kit,
+      quality: parsed.quality,
+      league: parsed.league,
+      seasonStart: parsed.seasonStart,
+      size: parsed.size,
+      minPrice: parsed.minPrice,
+      maxPrice: parsed.maxPrice,
     };
 
+    // Búsqueda de texto (ya filtrada): ids ordenados por relevancia
+    const match = await searchProducts(prisma, filters);
+    const sort = parsed.sort ?? (match ? "relevance" : "createdAt:desc");
+    const where = productWhere(
+      filters,
+      undefined,
+      match ? [...match.scores.keys()] : undefined
+    );
+
     // Orden (ampliamos whitelist)
     const [field, dir] = sort.split(":") as [string, "asc" | "desc"];
     const allowed = new Set(["createdAt", "title", "basePrice", "seasonStart"]);
@@ -172,47 +190,76 @@ export async function GET(req: NextRequest) {
       ? ({ [field]: dir } as const)
       : ({ createdAt: "desc" } as const);
 
-    const [total, rawItems] = await Promise.all([
-      prisma.product.count({ where }),
-      prisma.product.findMany({
-        where,
-        orderBy,
-        skip: (page - 1) * limit,
-        take: limit,
+    const select = {
+      id: true,
+      title: true,
+      basePrice: true, // ← nuevo
+      description: true,
+      purchasePrice: true,
+      purchaseUrl: true,
+      allowBackorder: true,
+      backorderLeadDays: true,
+      // imagen
+      imageUrl: true,
+      imagePublicId: true,
+      // metadatos nuevos
+      seasonLabel: true,
+      seasonStart: true,
+      kit: true,
+      quality: true,
+      league: true,
+      createdAt: true,
+      // variantes si necesitás en listing:
+      ProductVariant: {
+        select: {
+          id: true,
+          name: true,
+          stock: true,
+          price: true,
+          allowBackorder: true,
+        },
+      },
+      // múltiples imágenes
+      ProductImage: {
         select: {
           id: true,
-          title: true,
-          basePrice: true, // ← nuevo
-          description: true,
-          purchasePrice: true,
-          purchaseUrl: true,
-          // imagen
           imageUrl: true,
           imagePublicId: true,
-          // metadatos nuevos
-          seasonLabel: true,
-          seasonStart: true,
-          kit: true,
-          quality: true,
-          league: true,
-          createdAt: true,
-          // variantes si necesitás en listing:
-          ProductVariant: {
-            select: { id: true, name: true, stock: true, price: true },
-          },
-          // múltiples imágenes
-          ProductImage: {
-            select: {
-              id: true,
-              imageUrl: true,
-              imagePublicId: true,
-              order: true,
-            },
-            orderBy: { order: "asc" },
-          },
+          order: true,
         },
-      }),
-    ]);
+        orderBy: { order: "asc" },
+      },
+    } satisfies Prisma.ProductSelect;
+
+    let total: number;
+    let rawItems: Prisma.ProductGetPayload<{ select: typeof select }>[];
+    if (sort === "relevance" && match) {
+      // Los resultados ya vienen filtrados y ordenados: paginamos y
+      // traemos sólo la página
+      const pageIds = [...match.scores.keys()].slice(
+        (page - 1) * limit,
+        page * limit
+      );
+      const found = await prisma.product.findMany({
+        where: { id: { in: pageIds } },
+        select,
+      });
+      total = match.total;
+      rawItems = pageIds.flatMap((id) => found.filter((p) => p.id === id));
+    } else {
+      [total, rawItems] = await Promise.all([
+        prisma.product.count({ where }),
+        prisma.product.findMany({
+          where,
+          orderBy,
+          skip: (page - 1) * limit,
+          take: limit,
+          select,
+        }),
+      ]);
+      // Con texto buscado, count sólo ve los ids dentro del tope
+      if (match) total = match.total;
+    }
 
     // Garantizamos imageUrl válida con Cloudinary si hay publicId
     const items = rawItems.map((p) => {
@@ -221,11 +268,27 @@ export async function GET(req: NextRequest) {
       if (url && !isAbsoluteUrl(url) && p.imagePublicId) {
         url = makeCldUrl(p.imagePublicId);
       }
-      return { ...p, imageUrl: url };
+      return {
+        ...p,
+        imageUrl: url,
+        ...(match && { score: match.scores.get(p.id) ?? 0 }),
+      };
     });
 
+    const facets = parsed.facets
+      ? await productFacets(prisma, filters)
+      : undefined;
+
     return new Response(
-      JSON.stringify({ items, total, page, limit }),
+      JSON.stringify({
+        items,
+        total,
+        page,
+        limit,
+        // la búsqueda superó SEARCH_MAX_RESULTS: sólo se listan los más relevantes
+        truncated: match?.truncated ?? false,
+        facets,
+      }),
       withCORS(
         { status: 200, headers: { "Content-Type": "application/json" } },
         origin
@@ -257,6 +320,8 @@ export async function POST(req: NextRequest) {
       description: string | null;
       purchasePrice: number | null;
       purchaseUrl: string | null;
+      allowBackorder: boolean;
+      backorderLeadDays: number | null;
 
       // nuevos metadatos
       seasonLabel: string | null;
@@ -286,6 +351,8 @@ export async function POST(req: NextRequest) {
         description: fd.get("description") || undefined,
         purchasePrice: fd.get("purchasePrice") || undefined,
         purchaseUrl: fd.get("purchaseUrl") || undefined,
+        allowBackorder: fd.get("allowBackorder") || undefined,
+        backorderLeadDays: fd.get("backorderLeadDays") || undefined,
         type: fd.get("type") || undefined, // compat
         seasonLabel: fd.get("seasonLabel") || undefined,
         seasonStart: fd.get("seasonStart") || undefined,
@@ -391,6 +458,8 @@ export async function POST(req: NextRequest) {
         description: base.description ?? null,
         purchasePrice: base.purchasePrice ?? null,
         purchaseUrl: base.purchaseUrl ?? null,
+        allowBackorder: base.allowBackorder ?? false,
+        backorderLeadDays: base.backorderLeadDays ?? null,
         seasonLabel: norm.seasonLabel ?? null,
         seasonStart: norm.seasonStart ?? null,
         kit: norm.kit ?? null,
@@ -443,6 +512,8 @@ export async function POST(req: NextRequest) {
         description: dto.description ?? null,
         purchasePrice: dto.purchasePrice ?? null,
         purchaseUrl: dto.purchaseUrl ?? null,
+        allowBackorder: dto.allowBackorder ?? false,
+        backorderLeadDays: dto.backorderLeadDays ?? null,
         seasonLabel: norm.seasonLabel ?? null,
         seasonStart: norm.seasonStart ?? null,
         kit: norm.kit ?? null,
@@ -471,6 +542,10 @@ export async function POST(req: NextRequest) {
         purchasePrice: dataForDb.purchasePrice,
         purchaseUrl: dataForDb.purchaseUrl,
 
+        // encargos
+        allowBackorder: dataForDb.allowBackorder,
+        backorderLeadDays: dataForDb.backorderLeadDays,
+
         // imagen
         imageUrl: dataForDb.imageUrl,
         imagePublicId: dataForDb.imagePublicId,
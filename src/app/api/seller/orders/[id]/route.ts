@@ -3,15 +3,17 @@ import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
 import { z } from "zod";
+import { OrderStatusInput, OrderTransitionError } from "@/lib/orderStatus";
+import { FulfilmentError, advanceFulfilment } from "@/lib/fulfilments";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
 }
 const schema = z.object({
-  status: z.enum(["pending", "confirmed", "preparing", "ready", "delivered", "cancelled"])
-    .transform(val => val.toUpperCase() as "PENDING" | "CONFIRMED" | "PREPARING" | "READY" | "DELIVERED" | "CANCELLED")
+  status: OrderStatusInput,
 });
 
+// PATCH /api/seller/orders/:id - Avanzar mi sub-pedido (PREPARING / READY)
 export async function PATCH(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -22,29 +24,41 @@ export async function PATCH(
     const { status } = schema.parse(await req.json());
 
     const { id } = await params;
-    // Verificar pertenencia
-    const found = await prisma.order.findFirst({
-      where: {
-        id: id,
-        items: { some: { product: { ownerId: user.id } } },
-      },
-      select: { id: true },
-    });
-    if (!found)
-      return new Response(
-        JSON.stringify({ error: "FORBIDDEN" }),
-        withCORS({ status: 403 }, origin)
-      );
-
-    const updated = await prisma.order.update({
-      where: { id: id },
-      data: { status },
-    });
+    const updated = await prisma.$transaction((tx) =>
+      advanceFulfilment(tx, {
+        orderId: id,
+        sellerId: user.id,
+        to: status,
+        changedById: user.id,
+      })
+    );
     return new Response(
-      JSON.stringify(updated),
+      JSON.stringify({
+        ...updated.fulfilment,
+        orderStatus: updated.orderStatus,
+      }),
       withCORS({ status: 200 }, origin)
     );
-  } catch {
+  } catch (err: unknown) {
+    if (err instanceof FulfilmentError) {
+      // Sin sub-pedido propio en el pedido: igual que antes, FORBIDDEN
+      return new Response(
+        JSON.stringify({
+          error:
+            err.reason === "FULFILMENT_NOT_FOUND" ? "FORBIDDEN" : err.reason,
+        }),
+        withCORS(
+          { status: err.reason === "FULFILMENT_NOT_FOUND" ? 403 : 409 },
+          origin
+        )
+      );
+    }
+    if (err instanceof OrderTransitionError) {
+      return new Response(
+        JSON.stringify(err),
+        withCORS({ status: 409 }, origin)
+      );
+    }
     return new Response(
       JSON.stringify({ error: "BAD_REQUEST" }),
       withCORS({ status: 400 }, origin)
@@ -24,6 +24,8 @@ const variantSchema = z
     stock: z.coerce.number().int().min(0).optional(), // si omitís, Prisma usa default(0)
     // si querés permitir null explícito para usar el price del product:
     price: z.union([z.coerce.number().int().min(0), z.null()]).optional(),
+    // encargo sin stock: null = lo que diga el producto
+    allowBackorder: z.boolean().nullable().optional(),
   })
   .strict(); // rechaza claves extra
 
@@ -3,6 +3,8 @@ import { prisma } from "@/lib/db";
 import { withCORS, preflight } from "@/lib/cors";
 import { requireRole } from "@/lib/authz";
 import { Prisma } from "@prisma/client";
+import { parseOrderStatus } from "@/lib/orderStatus";
+import { ACTIVE_PAYMENT, summarizePayments } from "@/lib/payments";
 
 export async function OPTIONS(req: NextRequest) {
   return preflight(req);
@@ -15,13 +17,13 @@ export async function GET(req: NextRequest) {
     const { searchParams } = new URL(req.url);
     const page = Math.max(1, Number(searchParams.get("page") || 1));
     const limit = Math.min(50, Number(searchParams.get("limit") || 20));
-    const status = searchParams.get("status") || undefined;
+    const status = parseOrderStatus(searchParams.get("status") || "") ?? undefined;
     const search = searchParams.get("search") || undefined;
 
+    // El filtro de estado es el del sub-pedido del vendedor
     const where: Prisma.OrderWhereInput = {
-      items: { some: { product: { ownerId: user.id } } },
+      fulfilments: { some: { sellerId: user.id, ...(status && { status }) } },
     };
-    if (status) where.status = status;
     if (search)
       where.OR = [
         { name: { contains: search, mode: "insensitive" } },
@@ -43,12 +45,14 @@ export async function GET(req: NextRequest) {
           phone: true,
           subtotal: true,
           totalPrice: true,
-          depositAmount: true,
-          depositPaidAt: true,
-          balancePaidAt: true,
+          payments: { where: ACTIVE_PAYMENT, select: { amount: true } },
           createdAt: true,
+          fulfilments: {
+            where: { sellerId: user.id },
+            select: { id: true, status: true, subtotal: true, extrasTotal: true },
+          },
           items: {
-            where: { product: { ownerId: user.id } },
+            where: { fulfilment: { sellerId: user.id } },
             select: { id: true, title: true, price: true, quantity: true },
           },
         },
@@ -56,7 +60,16 @@ export async function GET(req: NextRequest) {
     ]);
 
     return new Response(
-      JSON.stringify({ items, page, limit, total }),
+      JSON.stringify({
+        items: items.map(({ payments, fulfilments, ...o }) => ({
+          ...o,
+          ...summarizePayments(o.totalPrice, payments),
+          fulfilment: fulfilments[0] ?? null,
+        })),
+        page,
+        limit,
+        total,
+      }),
       withCORS({ status: 200 }, origin)
     );
   } catch {
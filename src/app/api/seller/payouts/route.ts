@@ -0,0 +1,94 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { requireRole } from "@/lib/authz";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+const ENTRY_SELECT = {
+  id: true,
+  kind: true,
+  amount: true,
+  quantity: true,
+  description: true,
+  orderId: true,
+  createdAt: true,
+} as const;
+
+// GET /api/seller/payouts - Estado de cuenta: lo pendiente de liquidar y
+// las liquidaciones cobradas (?payoutId=... para el detalle de una)
+export async function GET(req: NextRequest) {
+  const origin = req.headers.get("origin");
+  try {
+    const user = await requireRole(req, ["seller"]);
+    const { searchParams } = new URL(req.url);
+    const payoutId = searchParams.get("payoutId");
+
+    if (payoutId) {
+      const payout = await prisma.payout.findFirst({
+        where: { id: payoutId, sellerId: user.id },
+        include: {
+          entries: { orderBy: { createdAt: "asc" }, select: ENTRY_SELECT },
+        },
+      });
+      if (!payout) {
+        return new Response(
+          JSON.stringify({ error: "NOT_FOUND" }),
+          withCORS({ status: 404 }, origin)
+        );
+      }
+      return new Response(
+        JSON.stringify(payout),
+        withCORS({ status: 200 }, origin)
+      );
+    }
+
+    const [pending, payouts, paid] = await Promise.all([
+      prisma.sellerLedgerEntry.findMany({
+        where: { sellerId: user.id, payoutId: null },
+        orderBy: { createdAt: "asc" },
+        select: ENTRY_SELECT,
+      }),
+      prisma.payout.findMany({
+        where: { sellerId: user.id },
+        orderBy: { createdAt: "desc" },
+        take: 50,
+        select: {
+          id: true,
+          periodFrom: true,
+          periodTo: true,
+          amount: true,
+          notes: true,
+          createdAt: true,
+        },
+      }),
+      prisma.payout.aggregate({
+        where: { sellerId: user.id },
+        _sum: { amount: true },
+      }),
+    ]);
+
+    const sum = (kind: string) =>
+      pending.filter((e) => e.kind === kind).reduce((s, e) => s + e.amount, 0);
+    return new Response(
+      JSON.stringify({
+        balance: pending.reduce((s, e) => s + e.amount, 0),
+        sales: sum("SALE"),
+        commissions: sum("COMMISSION"),
+        refunds: sum("REFUND"),
+        pending,
+        payouts,
+        paidTotal: paid._sum.amount ?? 0,
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "FORBIDDEN";
+    return new Response(
+      JSON.stringify({ error: "FORBIDDEN", message }),
+      withCORS({ status: 403 }, origin)
+    );
+  }
+}
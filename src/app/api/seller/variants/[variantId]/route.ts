@@ -13,6 +13,7 @@ const updateSchema = z.object({
   stock: z.coerce.number().int().min(0).optional(),
   price: z.coerce.number().int().nullable().optional(),
   sku: z.string().nullable().optional(),
+  allowBackorder: z.boolean().nullable().optional(), // null = hereda del producto
 });
 
 async function assertOwnership(
@@ -0,0 +1,65 @@
+import { NextRequest } from "next/server";
+import { prisma } from "@/lib/db";
+import { withCORS, preflight } from "@/lib/cors";
+import { normalizeTrackingCode } from "@/lib/tracking";
+
+export async function OPTIONS(req: NextRequest) {
+  return preflight(req);
+}
+
+// GET /api/track/:code - Seguimiento público. Sólo estado y línea de tiempo:
+// nada de nombre, teléfono, dirección ni coordenadas.
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  const origin = req.headers.get("origin");
+  try {
+    const { code } = await params;
+
+    const order = await prisma.order.findUnique({
+      where: { trackingCode: normalizeTrackingCode(code) },
+      select: {
+        trackingCode: true,
+        status: true,
+        deliveryMethod: true,
+        createdAt: true,
+        deliveryZone: { select: { etaMinutes: true } },
+        _count: { select: { items: true } },
+        statusHistory: {
+          where: { fulfilmentId: null }, // los sub-pedidos son internos
+          orderBy: { createdAt: "asc" },
+          select: { toStatus: true, createdAt: true },
+        },
+      },
+    });
+    if (!order) {
+      return new Response(
+        JSON.stringify({ error: "NOT_FOUND" }),
+        withCORS({ status: 404 }, origin)
+      );
+    }
+
+    return new Response(
+      JSON.stringify({
+        trackingCode: order.trackingCode,
+        status: order.status,
+        deliveryMethod: order.deliveryMethod,
+        etaMinutes: order.deliveryZone?.etaMinutes ?? null,
+        itemsCount: order._count.items,
+        createdAt: order.createdAt,
+        timeline: order.statusHistory.map((h) => ({
+          status: h.toStatus,
+          at: h.createdAt,
+        })),
+      }),
+      withCORS({ status: 200 }, origin)
+    );
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : "UNKNOWN_ERROR";
+    return new Response(
+      JSON.stringify({ error: "BAD_REQUEST", message }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+}
@@ -4,6 +4,7 @@ import { prisma } from "@/lib/db";
 import { requireRole } from "@/lib/authz";
 import { z } from "zod";
 import { v2 as cloudinary } from "cloudinary";
+import { withIdempotency } from "@/lib/idempotency";
 
 // Prisma necesita Node runtime
 export const runtime = "nodejs";
@@ -157,6 +158,10 @@ export async function GET(req: NextRequest) {
 }
 
 export async function POST(req: NextRequest) {
+  return withIdempotency(req, () => createTransaction(req));
+}
+
+async function createTransaction(req: NextRequest) {
   const origin = req.headers.get("origin");
   try {
     const user = await requireRole(req, ["admin", "seller"]);
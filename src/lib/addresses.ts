@@ -0,0 +1,77 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { z } from "zod";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+type Tx = Prisma.TransactionClient;
+
+export const MAX_ADDRESSES = 20;
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional();
+
+export const AddressFields = z.object({
+  label: z.string().trim().min(1).max(40),
+  name: optionalText(80),
+  phone: optionalText(40),
+  address: z.string().trim().min(5).max(300),
+  reference: optionalText(300),
+  lat: z.number().min(-90).max(90).nullable().optional(),
+  lng: z.number().min(-180).max(180).nullable().optional(),
+  isDefault: z.boolean().default(false),
+});
+
+/** El pin del mapa va completo (lat y lng) o no va */
+export function hasValidPin(a: { lat?: number | null; lng?: number | null }) {
+  return (a.lat == null) === (a.lng == null);
+}
+
+export type AddressRejection = "ADDRESS_NOT_FOUND" | "TOO_MANY_ADDRESSES";
+
+/** Se lanza cuando la dirección no existe (o no es del usuario) */
+export class AddressError extends Error {
+  readonly reason: AddressRejection;
+
+  constructor(reason: AddressRejection) {
+    super(reason);
+    this.name = "AddressError";
+    this.reason = reason;
+  }
+}
+
+/** Deja una sola dirección predeterminada por usuario */
+export async function setDefaultAddress(tx: Tx, userId: string, addressId: string) {
+  await tx.address.updateMany({
+    where: { userId, isDefault: true, id: { not: addressId } },
+    data: { isDefault: false },
+  });
+  return tx.address.update({
+    where: { id: addressId },
+    data: { isDefault: true },
+  });
+}
+
+/**
+ * Datos de entrega para el pedido a partir de una dirección guardada. La
+ * referencia se agrega al texto de la dirección: el pedido guarda una
+ * copia y no cambia si después se edita o borra la dirección.
+ */
+export async function resolveCheckoutAddress(
+  db: Db,
+  userId: string | null,
+  addressId: string
+) {
+  const saved = userId
+    ? await db.address.findFirst({ where: { id: addressId, userId } })
+    : null;
+  if (!saved) throw new AddressError("ADDRESS_NOT_FOUND");
+
+  return {
+    name: saved.name,
+    phone: saved.phone,
+    address: saved.reference
+      ? `${saved.address} (${saved.reference})`
+      : saved.address,
+    lat: saved.lat ?? undefined,
+    lng: saved.lng ?? undefined,
+  };
+}
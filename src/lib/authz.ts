@@ -5,13 +5,13 @@ import { z } from "zod";
 // import { Role } from "@prisma/client"
 
 // ===== Tipos de rol =====
-export type AppRole = "user" | "seller" | "admin";
+export type AppRole = "user" | "seller" | "admin" | "courier";
 // Si usas Prisma Role, cambia a: export type AppRole = Role
 
 // ===== Payload esperado del JWT =====
 const JwtUser = z.object({
   sub: z.string().min(1), // user id
-  role: z.enum(["user", "seller", "admin"]), // o z.nativeEnum(Role)
+  role: z.enum(["user", "seller", "admin", "courier"]), // o z.nativeEnum(Role)
   email: z.string().email().optional(),
   name: z.string().optional(),
 });
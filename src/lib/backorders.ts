@@ -0,0 +1,126 @@
+import { Prisma, StoreSettings } from "@prisma/client";
+import { StockRequest, reserveStock } from "@/lib/stock";
+
+type Tx = Prisma.TransactionClient;
+
+// Estados en los que las unidades encargadas todavía hay que comprarlas
+export const OPEN_BACKORDER_STATUSES = [
+  "PENDING",
+  "CONFIRMED",
+  "PREPARING",
+] as const;
+
+export type StockAllocation = {
+  backordered: number; // unidades que no había en stock
+  leadDays: number | null; // plazo cotizado (null si no hay encargo)
+};
+
+/** La variante decide; si no define nada, hereda del producto */
+export function allowsBackorder(
+  variant: { allowBackorder: boolean | null },
+  product: { allowBackorder: boolean }
+) {
+  return variant.allowBackorder ?? product.allowBackorder;
+}
+
+/** Seña mínima (Gs) para confirmar un pedido con unidades encargadas */
+export function requiredDeposit(
+  totalPrice: number,
+  hasBackorders: boolean,
+  settings: Pick<StoreSettings, "backorderDepositPercent">
+) {
+  if (!hasBackorders) return 0;
+  return Math.ceil((totalPrice * settings.backorderDepositPercent) / 100);
+}
+
+/**
+ * Reserva stock para cada línea. Las variantes que admiten encargo toman
+ * lo que haya (bloqueando la fila) y el resto queda encargado; las demás
+ * pasan por reserveStock y lanzan StockError si no alcanza.
+ * Devuelve una asignación por línea, en el mismo orden.
+ */
+export async function reserveOrBackorder(
+  tx: Tx,
+  lines: StockRequest[],
+  settings: Pick<StoreSettings, "backorderLeadDays">
+): Promise<StockAllocation[]> {
+  const variants = await tx.productVariant.findMany({
+    where: { id: { in: lines.map((l) => l.variantId) } },
+    select: {
+      id: true,
+      allowBackorder: true,
+      product: { select: { allowBackorder: true, backorderLeadDays: true } },
+    },
+  });
+  const policy = new Map(
+    variants.map((v) => [
+      v.id,
+      {
+        allow: allowsBackorder(v, v.product),
+        leadDays: v.product.backorderLeadDays ?? settings.backorderLeadDays,
+      },
+    ])
+  );
+
+  await reserveStock(
+    tx,
+    lines.filter((l) => !policy.get(l.variantId)?.allow)
+  );
+
+  const allocations: StockAllocation[] = [];
+  for (const line of lines) {
+    const p = policy.get(line.variantId);
+    if (!p?.allow) {
+      allocations.push({ backordered: 0, leadDays: null });
+      continue;
+    }
+    const [row] = await tx.$queryRaw<Array<{ stock: number }>>`
+      SELECT "stock" FROM "ProductVariant" WHERE "id" = ${line.variantId} FOR UPDATE`;
+    const take = Math.min(Math.max(row?.stock ?? 0, 0), line.qty);
+    if (take > 0) {
+      await tx.productVariant.update({
+        where: { id: line.variantId },
+        data: { stock: { decrement: take } },
+      });
+    }
+    const backordered = line.qty - take;
+    allocations.push({
+      backordered,
+      leadDays: backordered > 0 ? p.leadDays : null,
+    });
+  }
+  return allocations;
+}
+
+/**
+ * Asigna unidades recién llegadas de una variante a los encargos abiertos,
+ * del pedido más viejo al más nuevo: esas unidades pasan a estar reservadas
+ * por el pedido en vez de volver al stock. Devuelve cuántas se usaron.
+ */
+export async function fillBackorders(tx: Tx, variantId: string, qty: number) {
+  const lines = await tx.orderItem.findMany({
+    where: {
+      variantId,
+      backorderedQuantity: { gt: 0 },
+      order: {
+        status: { in: [...OPEN_BACKORDER_STATUSES] },
+        stockReservedAt: { not: null },
+        stockReleasedAt: null,
+      },
+    },
+    orderBy: { order: { createdAt: "asc" } },
+    select: { id: true, backorderedQuantity: true },
+  });
+
+  let remaining = qty;
+  for (const line of lines) {
+    if (remaining === 0) break;
+    const take = Math.min(remaining, line.backorderedQuantity);
+    const { count } = await tx.orderItem.updateMany({
+      where: { id: line.id, backorderedQuantity: { gte: take } },
+      data: { backorderedQuantity: { decrement: take } },
+    });
+    if (count > 0) remaining -= take;
+  }
+  return qty - remaining;
+}
@@ -0,0 +1,92 @@
+import { KitType, Prisma, ProductQuality } from "@prisma/client";
+
+// Filtros del listado de productos. Se expresan dos veces: como where de
+// Prisma (listado y facetas) y como SQL (búsqueda de texto, ver lib/search),
+// así el tope de candidatos de la búsqueda se aplica ya filtrado.
+export type ProductFilters = {
+  search?: { terms: string[]; kits: KitType[] }; // parseSearch de lib/search
+  kit?: KitType;
+  quality?: ProductQuality;
+  league?: string;
+  seasonStart?: number;
+  size?: string;
+  minPrice?: number;
+  maxPrice?: number;
+};
+
+export type FacetKey = "kit" | "quality" | "league" | "seasonStart" | "size" | "price";
+
+/** ¿La faceta tiene su filtro elegido? (si no, excluirlo no cambia nada) */
+export function hasFilter(f: ProductFilters, key: FacetKey) {
+  if (key === "price") return f.minPrice !== undefined || f.maxPrice !== undefined;
+  return f[key] !== undefined;
+}
+
+/**
+ * Where de productos; `except` deja afuera el filtro de una faceta para
+ * contar sus opciones como si no estuviera elegida. `matchIds` son los
+ * productos que coinciden con el texto buscado (lib/search).
+ */
+export function productWhere(
+  f: ProductFilters,
+  except?: FacetKey,
+  matchIds?: string[]
+): Prisma.ProductWhereInput {
+  const and: Prisma.ProductWhereInput[] = [];
+  if (matchIds) and.push({ id: { in: matchIds } });
+  if (f.search && f.search.kits.length > 0) {
+    and.push({ kit: { in: f.search.kits } });
+  }
+  if (f.kit && except !== "kit") and.push({ kit: f.kit });
+  if (f.quality && except !== "quality") and.push({ quality: f.quality });
+  if (f.league && except !== "league") {
+    and.push({ league: { contains: f.league, mode: "insensitive" } });
+  }
+  if (f.seasonStart !== undefined && except !== "seasonStart") {
+    and.push({ seasonStart: f.seasonStart });
+  }
+  if (f.size && except !== "size") {
+    and.push({
+      ProductVariant: {
+        some: { name: { equals: f.size, mode: "insensitive" }, stock: { gt: 0 } },
+      },
+    });
+  }
+  if (except !== "price") {
+    if (f.minPrice !== undefined) and.push({ basePrice: { gte: f.minPrice } });
+    if (f.maxPrice !== undefined) and.push({ basePrice: { lte: f.maxPrice } });
+  }
+  return { AND: and };
+}
+
+/** Los mismos filtros que productWhere, como "AND ..." sobre el alias p */
+export function productFilterSql(f: ProductFilters, except?: FacetKey) {
+  const and: Prisma.Sql[] = [];
+  if (f.search && f.search.kits.length > 0) {
+    and.push(Prisma.sql`p."kit"::text = ANY(${f.search.kits})`);
+  }
+  if (f.kit && except !== "kit") and.push(Prisma.sql`p."kit"::text = ${f.kit}`);
+  if (f.quality && except !== "quality") {
+    and.push(Prisma.sql`p."quality"::text = ${f.quality}`);
+  }
+  if (f.league && except !== "league") {
+    const pattern = `%${f.league.replace(/[\\%_]/g, "\\$&")}%`;
+    and.push(Prisma.sql`p."league" ILIKE ${pattern}`);
+  }
+  if (f.seasonStart !== undefined && except !== "seasonStart") {
+    and.push(Prisma.sql`p."seasonStart" = ${f.seasonStart}`);
+  }
+  if (f.size && except !== "size") {
+    and.push(Prisma.sql`EXISTS (
+      SELECT 1 FROM "ProductVariant" v
+      WHERE v."productId" = p."id" AND lower(v."name") = lower(${f.size}) AND v."stock" > 0
+    )`);
+  }
+  if (except !== "price") {
+    if (f.minPrice !== undefined) and.push(Prisma.sql`p."basePrice" >= ${f.minPrice}`);
+    if (f.maxPrice !== undefined) and.push(Prisma.sql`p."basePrice" <= ${f.maxPrice}`);
+  }
+  return and.length > 0
+    ? Prisma.sql`AND ${Prisma.join(and, " AND ")}`
+    : Prisma.empty;
+}
@@ -0,0 +1,289 @@
+import { prisma } from "@/lib/db";
+import { z } from "zod";
+import { StockError, reservationExpiry } from "@/lib/stock";
+import { expireStaleOrders } from "@/lib/expiry";
+import { requiredDeposit, reserveOrBackorder } from "@/lib/backorders";
+import { getStoreSettings } from "@/lib/settings";
+import { PricingError, priceOrderLines } from "@/lib/pricing";
+import {
+  LEGACY_PATCH_CODE,
+  PersonalizationError,
+  PersonalizationSchema,
+  loadPersonalizationCatalog,
+  pricePersonalization,
+} from "@/lib/personalization";
+import { CouponError, applyPromotions } from "@/lib/promotions";
+import { normalizePhone } from "@/lib/phone";
+import { DeliveryError, quoteDelivery } from "@/lib/delivery";
+import { generateTrackingCode } from "@/lib/tracking";
+import { syncFulfilments } from "@/lib/fulfilments";
+import { AddressError, resolveCheckoutAddress } from "@/lib/addresses";
+
+// ===== Schemas (tienda) =====
+export const CheckoutItemSchema = z
+  .object({
+    productId: z.string(),
+    variantId: z.string(),
+    qty: z.number().int().min(1).max(99),
+    // una entrada por unidad: [0] es la primera camiseta, [1] la segunda...
+    personalization: z.array(PersonalizationSchema).default([]),
+  })
+  .refine((it) => it.personalization.length <= it.qty, {
+    message: "Más personalizaciones que unidades",
+    path: ["personalization"],
+  });
+
+export const CheckoutSchema = z
+  .object({
+    // con addressId (dirección guardada) name y phone son opcionales y
+    // address/lat/lng se toman de la dirección
+    addressId: z.string().min(1).optional(),
+    name: z.string().min(2).optional(),
+    phone: z.string().min(6).optional(),
+    address: z.string().min(5).optional(),
+    notes: z.string().optional(),
+    items: z.array(CheckoutItemSchema).min(1),
+    // legacy: personalización a nivel pedido → se aplica a la 1ra unidad del 1er ítem
+    customName: z.string().optional(),
+    customNumber: z.number().int().min(1).max(99).optional(),
+    hasPatch: z.boolean().default(false),
+    couponCode: z.string().trim().min(1).max(40).optional(),
+    deliveryMethod: z.enum(["DELIVERY", "PICKUP"]).default("DELIVERY"),
+    lat: z.number().min(-90).max(90).optional(),
+    lng: z.number().min(-180).max(180).optional(),
+  })
+  .refine((b) => b.addressId || (b.name && b.phone && b.address), {
+    message: "Enviá addressId o name, phone y address",
+    path: ["address"],
+  });
+
+export type CheckoutInput = z.infer<typeof CheckoutSchema>;
+
+export type CheckoutRejection = "CONTACT_REQUIRED";
+
+/** Se lanza cuando faltan datos del pedido que no se pueden completar */
+export class CheckoutError extends Error {
+  readonly reason: CheckoutRejection;
+
+  constructor(reason: CheckoutRejection) {
+    super(reason);
+    this.name = "CheckoutError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Crea un pedido PENDING: valida y cotiza las líneas, la personalización,
+ * el envío y las promociones, y reserva el stock (o encarga lo que falte)
+ * en una transacción. Retorna el resumen que ve el cliente. Lanza los
+ * errores de cada paso; checkoutErrorResponse los traduce a HTTP.
+ */
+export async function placeOrder(input: CheckoutInput, userId: string | null) {
+  const {
+    addressId,
+    notes,
+    items,
+    customName,
+    customNumber,
+    hasPatch,
+    couponCode,
+    deliveryMethod,
+    ...contact
+  } = input;
+
+  // Dirección guardada: se copia al pedido (name/phone del body la pisan)
+  const saved = addressId
+    ? await resolveCheckoutAddress(prisma, userId, addressId)
+    : null;
+  const name = contact.name ?? saved?.name;
+  const phone = contact.phone ?? saved?.phone;
+  const address = saved?.address ?? contact.address!;
+  const lat = saved ? saved.lat : contact.lat;
+  const lng = saved ? saved.lng : contact.lng;
+  if (!name || !phone) throw new CheckoutError("CONTACT_REQUIRED");
+
+  // Resolver precio, nombre y SKU de cada variante (valida pertenencia)
+  const lines = await priceOrderLines(prisma, items);
+  const subtotal = lines.reduce((sum, l) => sum + l.unitPrice * l.qty, 0);
+
+  // Compat: si no vino personalización por ítem, usamos los campos legacy
+  const anyPersonalized = items.some((it) => it.personalization.length > 0);
+  if (!anyPersonalized && (customName || customNumber || hasPatch)) {
+    items[0].personalization = [
+      PersonalizationSchema.parse({
+        name: customName,
+        number: customNumber,
+        patches: hasPatch ? [LEGACY_PATCH_CODE] : [],
+      }),
+    ];
+  }
+
+  // Extras de personalización por unidad, según el catálogo vigente
+  const catalog = await loadPersonalizationCatalog(prisma);
+  const personalizationIssues: PersonalizationError["items"] = [];
+  const personalizations = items.map((it, itemIndex) => {
+    const { priced, issues } = pricePersonalization(
+      it.personalization,
+      lines[itemIndex],
+      catalog
+    );
+    issues.forEach((i) => personalizationIssues.push({ ...i, itemIndex }));
+    return priced;
+  });
+  if (personalizationIssues.length > 0) {
+    throw new PersonalizationError(personalizationIssues);
+  }
+  const extrasTotal = personalizations
+    .flat()
+    .reduce((sum, p) => sum + p.price, 0);
+
+  // Costo de envío según la zona (lanza DeliveryError si no hay cobertura)
+  const delivery = await quoteDelivery(prisma, {
+    method: deliveryMethod,
+    lat,
+    lng,
+  });
+
+  // Vencer pedidos abandonados antes de reservar (devuelve stock retenido).
+  // Best-effort: si falla, el cron lo reintenta y este checkout sigue
+  await expireStaleOrders().catch((err) =>
+    console.error("Error venciendo pedidos en el checkout:", err)
+  );
+  const settings = await getStoreSettings(prisma);
+
+  const order = await prisma.$transaction(async (tx) => {
+    // Reserva atómica: si alguna línea no tiene stock (y no admite
+    // encargo), se revierte todo
+    const allocations = await reserveOrBackorder(tx, lines, settings);
+    const hasBackorders = allocations.some((a) => a.backordered > 0);
+
+    // Promociones automáticas + cupón (lanza CouponError si no aplica)
+    const discounts = await applyPromotions(tx, {
+      lines,
+      phone: normalizePhone(phone),
+      couponCode,
+    });
+    const discountTotal = discounts.reduce((sum, d) => sum + d.amount, 0);
+    const totalPrice =
+      subtotal + extrasTotal - discountTotal + delivery.fee;
+
+    const now = new Date();
+    const created = await tx.order.create({
+      data: {
+        userId, // 👈 asociar si hay usuario; sino guest
+        trackingCode: generateTrackingCode(),
+        status: "PENDING",
+        name,
+        phone,
+        address,
+        notes: notes ?? null,
+        subtotal,
+        lat: lat ?? null,
+        lng: lng ?? null,
+        extrasTotal,
+        discountTotal,
+        deliveryMethod: delivery.method,
+        deliveryFee: delivery.fee,
+        deliveryZoneId: delivery.zone?.id ?? null,
+        totalPrice,
+        depositRequired: requiredDeposit(totalPrice, hasBackorders, settings),
+        stockReservedAt: now,
+        reservationExpiresAt: reservationExpiry(now),
+        items: {
+          create: lines.map((l, i) => ({
+            productId: l.productId,
+            variantId: l.variantId,
+            variantName: l.variantName,
+            sku: l.sku,
+            title: l.title,
+            price: l.unitPrice,
+            quantity: l.qty,
+            backorderedQuantity: allocations[i].backordered,
+            backorderLeadDays: allocations[i].leadDays,
+            imageUrl: l.imageUrl,
+            personalizations: { create: personalizations[i] },
+          })),
+        },
+        statusHistory: {
+          create: { toStatus: "PENDING", changedById: userId },
+        },
+        discounts: {
+          create: discounts.map((d) => ({
+            promotionId: d.promotionId,
+            code: d.code,
+            description: d.description,
+            phone: normalizePhone(phone),
+            amount: d.amount,
+          })),
+        },
+      },
+      include: {
+        items: { select: { backorderedQuantity: true, backorderLeadDays: true } },
+      },
+    });
+    // Un sub-pedido por vendedor de los productos
+    await syncFulfilments(tx, created.id);
+    return created;
+  });
+
+  // Plazo del encargo: el de la línea que más tarda
+  const backorderedItems = order.items.filter((it) => it.backorderedQuantity > 0);
+  const backorderLeadDays = backorderedItems.length
+    ? Math.max(...backorderedItems.map((it) => it.backorderLeadDays ?? 0))
+    : null;
+
+  return {
+    id: order.id,
+    trackingCode: order.trackingCode, // 👈 el invitado lo usa en /api/track/:code
+    subtotal: order.subtotal,
+    extrasTotal: order.extrasTotal,
+    discountTotal: order.discountTotal,
+    deliveryMethod: order.deliveryMethod,
+    deliveryFee: order.deliveryFee,
+    etaMinutes: delivery.zone?.etaMinutes ?? null,
+    totalPrice: order.totalPrice,
+    backordered: backorderedItems.length > 0,
+    backorderLeadDays,
+    depositRequired: order.depositRequired,
+  };
+}
+
+/** Estado y cuerpo de la respuesta para los errores de placeOrder (null si no es uno) */
+export function checkoutErrorResponse(
+  err: unknown
+): { status: number; body: Record<string, unknown> } | null {
+  if (err instanceof PricingError) {
+    return { status: 400, body: { error: "INVALID_ITEMS", items: err.items } };
+  }
+  if (err instanceof PersonalizationError) {
+    return {
+      status: 400,
+      body: { error: "INVALID_PERSONALIZATION", items: err.items },
+    };
+  }
+  if (err instanceof CouponError) {
+    return {
+      status: 400,
+      body: { error: "INVALID_COUPON", code: err.code, reason: err.reason },
+    };
+  }
+  if (err instanceof DeliveryError) {
+    return { status: 400, body: { error: err.reason } };
+  }
+  if (err instanceof CheckoutError) {
+    return {
+      status: 400,
+      body: {
+        error: err.reason,
+        message: "La dirección guardada no tiene nombre o teléfono; enviá name y phone.",
+      },
+    };
+  }
+  if (err instanceof AddressError) {
+    return { status: 404, body: { error: err.reason } };
+  }
+  if (err instanceof StockError) {
+    return { status: 409, body: { error: "OUT_OF_STOCK", items: err.items } };
+  }
+  return null;
+}
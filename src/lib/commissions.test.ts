@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { commissionFor, pickCommissionRule } from "@/lib/commissions";
+
+const general = { quality: null, kind: "PERCENT", value: 10 } as const;
+const premium = { quality: "PLAYER_VERSION", kind: "FIXED", value: 20000 } as const;
+
+describe("pickCommissionRule", () => {
+  it("la regla de la calidad gana sobre la general", () => {
+    expect(pickCommissionRule([general, premium], "PLAYER_VERSION")).toBe(premium);
+  });
+
+  it("sin regla para la calidad usa la general", () => {
+    expect(pickCommissionRule([general, premium], "FAN")).toBe(general);
+    expect(pickCommissionRule([premium, general], null)).toBe(general);
+  });
+
+  it("null si no hay regla aplicable", () => {
+    expect(pickCommissionRule([premium], "FAN")).toBeNull();
+    expect(pickCommissionRule([], "PLAYER_VERSION")).toBeNull();
+  });
+});
+
+describe("commissionFor", () => {
+  const line = { price: 150000, quantity: 2 };
+
+  it("porcentaje de la regla sobre la línea", () => {
+    expect(commissionFor(general, 5, line)).toBe(30000);
+  });
+
+  it("sin regla usa el porcentaje del local", () => {
+    expect(commissionFor(null, 5, line)).toBe(15000);
+    expect(commissionFor(null, 0, line)).toBe(0);
+  });
+
+  it("monto fijo por unidad, sin superar el precio", () => {
+    expect(commissionFor(premium, 5, line)).toBe(40000);
+    expect(commissionFor(premium, 5, { price: 15000, quantity: 2 })).toBe(30000);
+  });
+
+  it("redondea el porcentaje a guaraníes enteros", () => {
+    expect(commissionFor(null, 10, { price: 33335, quantity: 1 })).toBe(3334);
+  });
+});
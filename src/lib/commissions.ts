@@ -0,0 +1,237 @@
+import { CommissionRule, Prisma, ProductQuality } from "@prisma/client";
+import { z } from "zod";
+import { getStoreSettings } from "@/lib/settings";
+
+type Tx = Prisma.TransactionClient;
+
+// Categoría con la que la liquidación queda en el libro de caja
+export const SELLER_PAYOUT_CATEGORY = "pago a vendedores";
+
+// ===== Schemas (admin) =====
+export const CommissionRuleFields = z
+  .object({
+    sellerId: z.string().min(1),
+    quality: z.enum(["FAN", "PLAYER_VERSION"]).nullable().default(null),
+    kind: z.enum(["PERCENT", "FIXED"]),
+    value: z.coerce.number().int().min(0),
+  })
+  .refine((r) => r.kind !== "PERCENT" || r.value <= 100, {
+    message: "El porcentaje va de 0 a 100",
+    path: ["value"],
+  });
+
+export type PayoutRejection = "NOTHING_TO_PAY";
+
+/** Se lanza cuando no hay nada para liquidar */
+export class PayoutError extends Error {
+  readonly reason: PayoutRejection;
+
+  constructor(reason: PayoutRejection) {
+    super(reason);
+    this.name = "PayoutError";
+    this.reason = reason;
+  }
+}
+
+/** La regla de la calidad del producto gana sobre la general del vendedor */
+export function pickCommissionRule(
+  rules: Pick<CommissionRule, "quality" | "kind" | "value">[],
+  quality: ProductQuality | null
+) {
+  return (
+    rules.find((r) => quality !== null && r.quality === quality) ??
+    rules.find((r) => r.quality === null) ??
+    null
+  );
+}
+
+/** Comisión (Gs) del local sobre una línea; sin regla se usa el % del local */
+export function commissionFor(
+  rule: Pick<CommissionRule, "kind" | "value"> | null,
+  defaultPercent: number,
+  line: { price: number; quantity: number }
+) {
+  if (rule?.kind === "FIXED") return Math.min(rule.value, line.price) * line.quantity;
+  const percent = rule?.value ?? defaultPercent;
+  return Math.round((line.price * line.quantity * percent) / 100);
+}
+
+/**
+ * Al entregar un pedido, cada línea de un vendedor suma a su cuenta el
+ * precio de las unidades no devueltas (SALE) y resta la comisión del
+ * local (COMMISSION). Las líneas de productos del local no generan
+ * movimientos. Es idempotente: una línea ya acreditada no se repite.
+ */
+export async function accrueSellerEarnings(tx: Tx, orderId: string) {
+  const items = await tx.orderItem.findMany({
+    where: {
+      orderId,
+      product: { owner: { role: "seller" } },
+      ledgerEntries: { none: { kind: "SALE" } },
+    },
+    select: {
+      id: true,
+      title: true,
+      variantName: true,
+      price: true,
+      quantity: true,
+      refundedQuantity: true,
+      product: { select: { ownerId: true, quality: true } },
+    },
+  });
+  const lines = items.filter((it) => it.quantity > it.refundedQuantity);
+  if (lines.length === 0) return [];
+
+  const settings = await getStoreSettings(tx);
+  const rules = await tx.commissionRule.findMany({
+    where: { sellerId: { in: lines.map((it) => it.product.ownerId) } },
+  });
+
+  const entries: Prisma.SellerLedgerEntryCreateManyInput[] = [];
+  for (const it of lines) {
+    const quantity = it.quantity - it.refundedQuantity;
+    const label = it.variantName ? `${it.title} (${it.variantName})` : it.title;
+    const rule = pickCommissionRule(
+      rules.filter((r) => r.sellerId === it.product.ownerId),
+      it.product.quality
+    );
+    const commission = commissionFor(rule, settings.sellerCommissionPercent, {
+      price: it.price,
+      quantity,
+    });
+    const base = { sellerId: it.product.ownerId, orderId, orderItemId: it.id, quantity };
+    entries.push({
+      ...base,
+      kind: "SALE",
+      amount: it.price * quantity,
+      description: `${quantity} × ${label} — pedido #${orderId.slice(-8)}`,
+    });
+    if (commission > 0) {
+      entries.push({
+        ...base,
+        kind: "COMMISSION",
+        amount: -commission,
+        description: `Comisión ${quantity} × ${label}`,
+      });
+    }
+  }
+  await tx.sellerLedgerEntry.createMany({ data: entries });
+  return entries;
+}
+
+/**
+ * Devolución de unidades ya acreditadas: se revierte la parte proporcional
+ * de la venta y de la comisión en un único movimiento REFUND.
+ */
+export async function reverseSellerEarnings(
+  tx: Tx,
+  orderItemId: string,
+  quantity: number
+) {
+  const accrued = await tx.sellerLedgerEntry.findMany({
+    where: { orderItemId, kind: { in: ["SALE", "COMMISSION"] } },
+    select: { sellerId: true, orderId: true, kind: true, amount: true, quantity: true },
+  });
+  const sale = accrued.find((e) => e.kind === "SALE");
+  if (!sale || sale.quantity === 0) return null;
+
+  const commission = accrued
+    .filter((e) => e.kind === "COMMISSION")
+    .reduce((sum, e) => sum + e.amount, 0);
+  const share = (amount: number) => Math.round((amount * quantity) / sale.quantity);
+
+  return tx.sellerLedgerEntry.create({
+    data: {
+      sellerId: sale.sellerId,
+      orderId: sale.orderId,
+      orderItemId,
+      kind: "REFUND",
+      amount: -(share(sale.amount) + share(commission)),
+      quantity,
+      description: `Devolución de ${quantity} unidad(es)`,
+    },
+  });
+}
+
+/**
+ * Liquida lo pendiente de cada vendedor hasta `to` (y desde `from`, si se
+ * indica): crea el Payout con su EXPENSE en el libro de caja y marca los
+ * movimientos como liquidados. Los vendedores sin saldo a favor se omiten.
+ */
+export async function settlePayouts(
+  tx: Tx,
+  params: {
+    to: Date;
+    from?: Date;
+    sellerIds?: string[];
+    createdById: string;
+    notes?: string | null;
+  }
+) {
+  const where: Prisma.SellerLedgerEntryWhereInput = {
+    payoutId: null,
+    createdAt: { lt: params.to, ...(params.from && { gte: params.from }) },
+    ...(params.sellerIds && { sellerId: { in: params.sellerIds } }),
+  };
+
+  // Bloqueamos lo pendiente: dos liquidaciones simultáneas pagarían doble
+  const pending = await tx.sellerLedgerEntry.findMany({
+    where,
+    select: { id: true },
+  });
+  if (pending.length === 0) throw new PayoutError("NOTHING_TO_PAY");
+  await tx.$executeRaw`SELECT 1 FROM "SellerLedgerEntry" WHERE "id" IN (${Prisma.join(
+    pending.map((e) => e.id)
+  )}) FOR UPDATE`;
+  const locked = await tx.sellerLedgerEntry.findMany({
+    where: { id: { in: pending.map((e) => e.id) }, payoutId: null },
+    select: { id: true, sellerId: true, amount: true },
+  });
+
+  const balances = new Map<string, { amount: number; ids: string[] }>();
+  for (const e of locked) {
+    const b = balances.get(e.sellerId) ?? { amount: 0, ids: [] };
+    b.amount += e.amount;
+    b.ids.push(e.id);
+    balances.set(e.sellerId, b);
+  }
+  const payable = [...balances].filter(([, b]) => b.amount > 0);
+  if (payable.length === 0) throw new PayoutError("NOTHING_TO_PAY");
+
+  const sellers = await tx.user.findMany({
+    where: { id: { in: payable.map(([sellerId]) => sellerId) } },
+    select: { id: true, name: true, email: true },
+  });
+
+  const payouts = [];
+  for (const [sellerId, { amount, ids }] of payable) {
+    const seller = sellers.find((s) => s.id === sellerId)!;
+    const transaction = await tx.transaction.create({
+      data: {
+        userId: params.createdById,
+        type: "EXPENSE",
+        amount,
+        description: `Liquidación a ${seller.name || seller.email}`,
+        category: SELLER_PAYOUT_CATEGORY,
+        occurredAt: new Date(),
+      },
+    });
+    const payout = await tx.payout.create({
+      data: {
+        sellerId,
+        periodFrom: params.from ?? null,
+        periodTo: params.to,
+        amount,
+        transactionId: transaction.id,
+        createdById: params.createdById,
+        notes: params.notes ?? null,
+      },
+    });
+    await tx.sellerLedgerEntry.updateMany({
+      where: { id: { in: ids } },
+      data: { payoutId: payout.id },
+    });
+    payouts.push({ ...payout, entries: ids.length });
+  }
+  return payouts;
+}
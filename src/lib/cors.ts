@@ -40,7 +40,12 @@ export function withCORS(
     "GET,POST,PATCH,PUT,DELETE,OPTIONS"
   );
   // Si el preflight pidió headers específicos, se resuelven en preflight()
-  headers.set("Access-Control-Allow-Headers", "authorization,content-type");
+  headers.set(
+    "Access-Control-Allow-Headers",
+    "authorization,content-type,idempotency-key"
+  );
+  // Para que el storefront (otro origin) pueda leer si fue un replay
+  headers.set("Access-Control-Expose-Headers", "Idempotent-Replayed");
   headers.set(
     "Vary",
     "Origin, Access-Control-Request-Method, Access-Control-Request-Headers"
@@ -53,7 +58,7 @@ export function preflight(req: NextRequest) {
   const origin = normalizeOrigin(req.headers.get("origin"));
   const acrh =
     req.headers.get("access-control-request-headers") ??
-    "authorization,content-type";
+    "authorization,content-type,idempotency-key";
 
   const headers = new Headers();
   if (origin && ALLOWED.has(origin)) {
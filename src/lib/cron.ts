@@ -0,0 +1,17 @@
+import { timingSafeEqual } from "crypto";
+import type { NextRequest } from "next/server";
+
+/**
+ * Valida el secreto compartido de los endpoints de cron
+ * (Authorization: Bearer <CRON_SECRET>, el formato de Vercel Cron).
+ * Sin CRON_SECRET configurado no se autoriza nada.
+ */
+export function isCronAuthorized(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return false;
+  const header = req.headers.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const a = Buffer.from(token);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
@@ -0,0 +1,169 @@
+import { PaymentMethod, Prisma } from "@prisma/client";
+import { transitionOrder } from "@/lib/orderStatus";
+import { getOrderBalance, settleBalanceOnDelivery } from "@/lib/payments";
+
+type Tx = Prisma.TransactionClient;
+
+/** Asignaciones que el repartidor todavía tiene en la calle */
+export const ACTIVE_ASSIGNMENT = {
+  status: { in: ["ASSIGNED", "PICKED_UP"] },
+} satisfies Prisma.DeliveryAssignmentWhereInput;
+
+export type AssignmentRejection =
+  | "COURIER_NOT_FOUND"
+  | "ORDERS_NOT_READY"
+  | "ASSIGNMENT_NOT_FOUND"
+  | "ASSIGNMENT_CLOSED"
+  | "NOT_PICKED_UP"
+  | "BALANCE_OUTSTANDING"
+  | "AMOUNT_EXCEEDS_BALANCE";
+
+/** Se lanza cuando la asignación o la entrega no se puede aplicar */
+export class AssignmentError extends Error {
+  readonly reason: AssignmentRejection;
+  readonly items?: string[]; // orderId que no se pueden asignar
+  readonly balance?: number;
+
+  constructor(
+    reason: AssignmentRejection,
+    extra?: { items?: string[]; balance?: number }
+  ) {
+    super(reason);
+    this.name = "AssignmentError";
+    this.reason = reason;
+    this.items = extra?.items;
+    this.balance = extra?.balance;
+  }
+}
+
+/**
+ * Marca el pedido como DELIVERED, cobra el saldo pendiente con el medio
+ * indicado y cierra la asignación activa del repartidor (si hay), dejando
+ * registrado el efectivo que tiene que rendir. Retorna el pago del saldo
+ * o null si el pedido ya estaba pagado.
+ */
+export async function deliverOrder(
+  tx: Tx,
+  params: {
+    orderId: string;
+    changedById: string;
+    method?: PaymentMethod;
+    notes?: string | null;
+  }
+) {
+  await transitionOrder(tx, {
+    orderId: params.orderId,
+    to: "DELIVERED",
+    changedById: params.changedById,
+  });
+  const payment = await settleBalanceOnDelivery(
+    tx,
+    params.orderId,
+    params.changedById,
+    params.method
+  );
+
+  await tx.deliveryAssignment.updateMany({
+    where: { orderId: params.orderId, ...ACTIVE_ASSIGNMENT },
+    data: {
+      status: "DELIVERED",
+      deliveredAt: new Date(),
+      cashCollected: payment?.method === "CASH" ? payment.amount : 0,
+      ...(params.notes !== undefined && { notes: params.notes }),
+    },
+  });
+  return payment;
+}
+
+/**
+ * Asigna pedidos READY con envío a un repartidor, en el orden recibido
+ * (sequence 1..n). Un pedido que ya estaba asignado a otro repartidor se
+ * reasigna: la asignación anterior queda CANCELLED.
+ */
+export async function assignDeliveries(
+  tx: Tx,
+  params: { courierId: string; orderIds: string[]; assignedById: string }
+) {
+  const courier = await tx.user.findUnique({
+    where: { id: params.courierId },
+    select: { role: true },
+  });
+  if (courier?.role !== "courier") throw new AssignmentError("COURIER_NOT_FOUND");
+
+  const orders = await tx.order.findMany({
+    where: {
+      id: { in: params.orderIds },
+      status: "READY",
+      deliveryMethod: "DELIVERY",
+    },
+    select: { id: true },
+  });
+  const invalid = params.orderIds.filter((id) => !orders.some((o) => o.id === id));
+  if (invalid.length > 0) {
+    throw new AssignmentError("ORDERS_NOT_READY", { items: invalid });
+  }
+
+  await tx.deliveryAssignment.updateMany({
+    where: { orderId: { in: params.orderIds }, ...ACTIVE_ASSIGNMENT },
+    data: { status: "CANCELLED" },
+  });
+  const assignments = [];
+  for (const [i, orderId] of params.orderIds.entries()) {
+    assignments.push(
+      await tx.deliveryAssignment.create({
+        data: {
+          orderId,
+          courierId: params.courierId,
+          assignedById: params.assignedById,
+          sequence: i + 1,
+        },
+      })
+    );
+  }
+  return assignments;
+}
+
+/**
+ * Entrega hecha por el repartidor: el monto que dice haber cobrado tiene
+ * que coincidir con el saldo del pedido (no se entrega con saldo pendiente).
+ */
+export async function completeAssignment(
+  tx: Tx,
+  params: {
+    assignmentId: string;
+    courierId: string;
+    amountCollected?: number;
+    method?: PaymentMethod;
+    notes?: string | null;
+  }
+) {
+  // Bloqueamos la asignación: dos "entregado" simultáneos no deben cobrar dos veces
+  await tx.$executeRaw`SELECT 1 FROM "DeliveryAssignment" WHERE "id" = ${params.assignmentId} FOR UPDATE`;
+  const assignment = await tx.deliveryAssignment.findFirst({
+    where: { id: params.assignmentId, courierId: params.courierId },
+  });
+  if (!assignment) throw new AssignmentError("ASSIGNMENT_NOT_FOUND");
+  if (assignment.status === "ASSIGNED") throw new AssignmentError("NOT_PICKED_UP");
+  if (assignment.status !== "PICKED_UP") throw new AssignmentError("ASSIGNMENT_CLOSED");
+
+  const summary = await getOrderBalance(tx, assignment.orderId);
+  const balance = Math.max(0, summary?.balance ?? 0);
+  const amount = params.amountCollected ?? balance;
+  if (amount < balance) {
+    throw new AssignmentError("BALANCE_OUTSTANDING", { balance });
+  }
+  if (amount > balance) {
+    throw new AssignmentError("AMOUNT_EXCEEDS_BALANCE", { balance });
+  }
+
+  const payment = await deliverOrder(tx, {
+    orderId: assignment.orderId,
+    changedById: params.courierId,
+    method: params.method,
+    notes: params.notes,
+  });
+  const delivered = await tx.deliveryAssignment.findUniqueOrThrow({
+    where: { id: assignment.id },
+  });
+  return { assignment: delivered, payment };
+}
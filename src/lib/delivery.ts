@@ -0,0 +1,127 @@
+import {
+  DeliveryMethod,
+  DeliveryZone,
+  Prisma,
+  PrismaClient,
+} from "@prisma/client";
+import { z } from "zod";
+import { LatLng, haversineKm, pointInPolygon } from "@/lib/geo";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+/** Ubicación del local (centro de las zonas RADIUS); null si no está configurada */
+export function shopLocation(): LatLng | null {
+  if (!process.env.SHOP_LAT || !process.env.SHOP_LNG) return null;
+  const lat = Number(process.env.SHOP_LAT);
+  const lng = Number(process.env.SHOP_LNG);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  return { lat, lng };
+}
+
+export const LatLngSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
+});
+
+export const PolygonSchema = z.array(LatLngSchema).min(3);
+
+// ===== Schemas (admin) =====
+export const DeliveryZoneFields = z.object({
+  name: z.string().trim().min(2).max(80),
+  type: z.enum(["RADIUS", "POLYGON"]),
+  minKm: z.coerce.number().min(0).nullable().optional(),
+  maxKm: z.coerce.number().positive().nullable().optional(),
+  polygon: PolygonSchema.nullable().optional(),
+  fee: z.coerce.number().int().min(0), // Gs
+  etaMinutes: z.coerce.number().int().min(1).nullable().optional(),
+  priority: z.coerce.number().int().default(0),
+  active: z.boolean().default(true),
+});
+
+/** Reglas que dependen del tipo de zona; null si la zona es válida */
+export function deliveryZoneRuleError(zone: {
+  type: DeliveryZone["type"];
+  minKm?: number | null;
+  maxKm?: number | null;
+  polygon?: unknown;
+}): string | null {
+  if (zone.type === "RADIUS") {
+    if (zone.maxKm == null) return "maxKm es requerido para zonas RADIUS";
+    if ((zone.minKm ?? 0) >= zone.maxKm) return "minKm debe ser menor a maxKm";
+    if (!shopLocation()) return "Configurá SHOP_LAT y SHOP_LNG para usar zonas RADIUS";
+    return null;
+  }
+  if (!PolygonSchema.safeParse(zone.polygon).success)
+    return "polygon requiere al menos 3 puntos { lat, lng }";
+  return null;
+}
+
+export type DeliveryRejection = "LOCATION_REQUIRED" | "OUT_OF_COVERAGE";
+
+/** Se lanza cuando no se puede enviar a la ubicación indicada */
+export class DeliveryError extends Error {
+  readonly reason: DeliveryRejection;
+
+  constructor(reason: DeliveryRejection) {
+    super(reason);
+    this.name = "DeliveryError";
+    this.reason = reason;
+  }
+}
+
+export type DeliveryQuote = {
+  method: DeliveryMethod;
+  fee: number; // Gs
+  zone: { id: string; name: string; etaMinutes: number | null } | null;
+};
+
+/** true si la zona cubre el punto (las RADIUS sin local configurado no cubren nada) */
+export function zoneContains(
+  zone: Pick<DeliveryZone, "type" | "minKm" | "maxKm" | "polygon">,
+  point: LatLng,
+  shop: LatLng | null = shopLocation()
+): boolean {
+  if (zone.type === "RADIUS") {
+    if (!shop) return false;
+    const km = haversineKm(shop, point);
+    return km >= (zone.minKm ?? 0) && (zone.maxKm === null || km < zone.maxKm);
+  }
+  const polygon = PolygonSchema.safeParse(zone.polygon);
+  return polygon.success && pointInPolygon(point, polygon.data);
+}
+
+/**
+ * Costo de envío para un pedido. El retiro en el local no paga envío.
+ * Sin zonas activas el envío no está configurado y se cobra 0 (comportamiento
+ * anterior); con zonas, la ubicación es obligatoria y debe estar cubierta.
+ */
+export async function quoteDelivery(
+  db: Db,
+  params: { method: DeliveryMethod; lat?: number | null; lng?: number | null }
+): Promise<DeliveryQuote> {
+  if (params.method === "PICKUP") {
+    return { method: "PICKUP", fee: 0, zone: null };
+  }
+
+  const zones = await db.deliveryZone.findMany({
+    where: { active: true },
+    orderBy: [{ priority: "desc" }, { fee: "asc" }],
+  });
+  if (zones.length === 0) {
+    return { method: "DELIVERY", fee: 0, zone: null };
+  }
+
+  if (params.lat == null || params.lng == null) {
+    throw new DeliveryError("LOCATION_REQUIRED");
+  }
+  const point = { lat: params.lat, lng: params.lng };
+  const shop = shopLocation();
+  const zone = zones.find((z) => zoneContains(z, point, shop));
+  if (!zone) throw new DeliveryError("OUT_OF_COVERAGE");
+
+  return {
+    method: "DELIVERY",
+    fee: zone.fee,
+    zone: { id: zone.id, name: zone.name, etaMinutes: zone.etaMinutes },
+  };
+}
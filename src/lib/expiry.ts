@@ -0,0 +1,82 @@
+import { prisma } from "@/lib/db";
+import { OrderTransitionError, transitionOrder } from "@/lib/orderStatus";
+import { ACTIVE_PAYMENT } from "@/lib/payments";
+import { RESERVATION_HOURS } from "@/lib/stock";
+
+export const EXPIRED_REASON = "EXPIRED";
+
+export type ExpiryReport = {
+  checked: number;
+  expired: Array<{ id: string; trackingCode: string; createdAt: Date }>;
+  stockReleased: number; // pedidos que tenían stock reservado
+};
+
+/**
+ * Cancela los pedidos PENDING sin pagos cuya reserva venció (o, para
+ * pedidos viejos sin reserva, creados hace más de RESERVATION_HOURS) y
+ * devuelve su stock. Idempotente: un pedido ya cancelado, confirmado o con
+ * un pago registrado no se toca, así correrlo dos veces no cambia nada.
+ */
+export async function expireStaleOrders(now = new Date()): Promise<ExpiryReport> {
+  const cutoff = new Date(now.getTime() - RESERVATION_HOURS * 60 * 60 * 1000);
+  const stale = {
+    status: "PENDING" as const,
+    payments: { none: ACTIVE_PAYMENT },
+    OR: [
+      { reservationExpiresAt: { lt: now } },
+      { reservationExpiresAt: null, createdAt: { lt: cutoff } },
+    ],
+  };
+
+  const candidates = await prisma.order.findMany({
+    where: stale,
+    select: { id: true },
+    orderBy: { createdAt: "asc" },
+  });
+
+  const report: ExpiryReport = {
+    checked: candidates.length,
+    expired: [],
+    stockReleased: 0,
+  };
+
+  for (const { id } of candidates) {
+    await prisma.$transaction(async (tx) => {
+      // Re-chequeamos bajo lock: pudo confirmarse o recibir un pago
+      await tx.$executeRaw`SELECT 1 FROM "Order" WHERE "id" = ${id} FOR UPDATE`;
+      const order = await tx.order.findFirst({
+        where: { id, ...stale },
+        select: {
+          id: true,
+          trackingCode: true,
+          createdAt: true,
+          stockReservedAt: true,
+          stockReleasedAt: true,
+        },
+      });
+      if (!order) return;
+
+      try {
+        await transitionOrder(tx, {
+          orderId: id,
+          to: "CANCELLED",
+          reason: EXPIRED_REASON,
+        });
+      } catch (err) {
+        if (err instanceof OrderTransitionError) return;
+        throw err;
+      }
+
+      report.expired.push({
+        id: order.id,
+        trackingCode: order.trackingCode,
+        createdAt: order.createdAt,
+      });
+      if (order.stockReservedAt && !order.stockReleasedAt) {
+        report.stockReleased++;
+      }
+    });
+  }
+
+  return report;
+}
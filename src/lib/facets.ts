@@ -0,0 +1,119 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import {
+  FacetKey,
+  ProductFilters,
+  hasFilter,
+  productFilterSql,
+  productWhere,
+} from "@/lib/catalogFilters";
+import { searchProducts } from "@/lib/search";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Cantidad aproximada de rangos del histograma de precios
+export const PRICE_BUCKETS = 6;
+
+/** Paso "redondo" (1, 2 o 5 × 10^n) para que los rangos se lean bien */
+function niceStep(raw: number) {
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find((m) => m * magnitude >= raw)!;
+  return step * magnitude;
+}
+
+/**
+ * Rangos de basePrice con su cantidad de productos. Se calcula con un
+ * aggregate y un count por rango, sin traer los productos.
+ */
+async function priceHistogram(db: Db, where: Prisma.ProductWhereInput) {
+  const { _min, _max } = await db.product.aggregate({
+    where,
+    _min: { basePrice: true },
+    _max: { basePrice: true },
+  });
+  if (_min.basePrice === null || _max.basePrice === null) return [];
+
+  const step = niceStep(Math.max(1, (_max.basePrice - _min.basePrice) / PRICE_BUCKETS));
+  const ranges: { min: number; max: number }[] = [];
+  for (let min = Math.floor(_min.basePrice / step) * step; min <= _max.basePrice; min += step) {
+    ranges.push({ min, max: min + step - 1 });
+  }
+  const counts = await Promise.all(
+    ranges.map((r) =>
+      db.product.count({
+        where: { AND: [where, { basePrice: { gte: r.min, lte: r.max } }] },
+      })
+    )
+  );
+  return ranges.map((r, i) => ({ ...r, count: counts[i] }));
+}
+
+/**
+ * Talles con stock y cuántos productos los tienen. El filtro de talle no
+ * distingue mayúsculas, así que "M" y "m" van al mismo bucket (con el
+ * nombre tal como está cargado). Es SQL porque groupBy no agrupa por
+ * lower(); los filtros son los mismos de productWhere.
+ */
+function sizeBuckets(db: Db, f: ProductFilters, matchIds?: string[]) {
+  return db.$queryRaw<Array<{ value: string; count: number }>>`
+    SELECT min(v."name") AS "value", count(DISTINCT v."productId")::int AS "count"
+    FROM "ProductVariant" v
+    JOIN "Product" p ON p."id" = v."productId"
+    WHERE v."stock" > 0
+      ${matchIds ? Prisma.sql`AND p."id" = ANY(${matchIds}::text[])` : Prisma.empty}
+      ${productFilterSql(f, "size")}
+    GROUP BY lower(v."name")`;
+}
+
+/**
+ * Conteos para los filtros del listado. Cada faceta se cuenta con los demás
+ * filtros aplicados pero no con el suyo (elegir HOME no oculta AWAY).
+ * Todo se cuenta en la base (groupBy/count); con texto buscado, cada faceta
+ * que tiene su filtro elegido repite la búsqueda sin ese filtro.
+ * `truncated` avisa que alguna búsqueda superó el tope de resultados.
+ */
+export async function productFacets(db: Db, f: ProductFilters) {
+  const base = await searchProducts(db, f);
+  let truncated = base?.truncated ?? false;
+  const matchFor = async (key: FacetKey) => {
+    const match = hasFilter(f, key) ? await searchProducts(db, f, key) : base;
+    if (match?.truncated) truncated = true;
+    return match ? [...match.scores.keys()] : undefined;
+  };
+  const whereFor = async (key: FacetKey) =>
+    productWhere(f, key, await matchFor(key));
+  const where = {
+    kit: await whereFor("kit"),
+    quality: await whereFor("quality"),
+    league: await whereFor("league"),
+    seasonStart: await whereFor("seasonStart"),
+    price: await whereFor("price"),
+  };
+  const sizeMatch = await matchFor("size");
+
+  const count = { _count: { _all: true } } as const;
+  const [kit, quality, league, seasonStart, size, price] = await Promise.all([
+    db.product.groupBy({ by: ["kit"], where: where.kit, ...count }),
+    db.product.groupBy({ by: ["quality"], where: where.quality, ...count }),
+    db.product.groupBy({ by: ["league"], where: where.league, ...count }),
+    db.product.groupBy({ by: ["seasonStart"], where: where.seasonStart, ...count }),
+    sizeBuckets(db, f, sizeMatch),
+    priceHistogram(db, where.price),
+  ]);
+
+  const buckets = <T>(rows: { value: T | null; count: number }[]) =>
+    rows
+      .filter((r): r is { value: T; count: number } => r.value !== null)
+      .sort((a, b) => b.count - a.count);
+
+  return {
+    kit: buckets(kit.map((r) => ({ value: r.kit, count: r._count._all }))),
+    quality: buckets(quality.map((r) => ({ value: r.quality, count: r._count._all }))),
+    league: buckets(league.map((r) => ({ value: r.league, count: r._count._all }))),
+    seasonStart: buckets(
+      seasonStart.map((r) => ({ value: r.seasonStart, count: r._count._all }))
+    ).sort((a, b) => b.value - a.value),
+    size: buckets(size),
+    price,
+    truncated,
+  };
+}
@@ -0,0 +1,64 @@
+// Formatos para Paraguay (montos en guaraníes, sin decimales)
+const LOCALE = "es-PY";
+const TIME_ZONE = "America/Asuncion";
+
+const gs = new Intl.NumberFormat(LOCALE, {
+  style: "currency",
+  currency: "PYG",
+  maximumFractionDigits: 0,
+});
+
+const dateTime = new Intl.DateTimeFormat(LOCALE, {
+  timeZone: TIME_ZONE,
+  day: "2-digit",
+  month: "2-digit",
+  year: "numeric",
+  hour: "2-digit",
+  minute: "2-digit",
+});
+
+const date = new Intl.DateTimeFormat(LOCALE, {
+  timeZone: TIME_ZONE,
+  day: "2-digit",
+  month: "2-digit",
+  year: "numeric",
+});
+
+/** 150000 → "Gs. 150.000" */
+export function formatGs(amount: number): string {
+  return gs.format(amount);
+}
+
+export function formatDateTime(value: Date): string {
+  return dateTime.format(value);
+}
+
+export function formatDate(value: Date): string {
+  return date.format(value);
+}
+
+const time = new Intl.DateTimeFormat(LOCALE, {
+  timeZone: TIME_ZONE,
+  hour: "2-digit",
+  minute: "2-digit",
+  hourCycle: "h23",
+});
+
+/** "14:05" */
+export function formatTime(value: Date): string {
+  return time.format(value);
+}
+
+/** Inicio y fin (exclusivo) del día "YYYY-MM-DD" en hora de Asunción */
+export function localDayRange(day: string): { from: Date; to: Date } {
+  const offset =
+    new Intl.DateTimeFormat("en-US", {
+      timeZone: TIME_ZONE,
+      timeZoneName: "longOffset",
+    })
+      .formatToParts(new Date(`${day}T12:00:00Z`))
+      .find((p) => p.type === "timeZoneName")
+      ?.value.replace("GMT", "") || "Z";
+  const from = new Date(`${day}T00:00:00${offset}`);
+  return { from, to: new Date(from.getTime() + 24 * 60 * 60 * 1000) };
+}
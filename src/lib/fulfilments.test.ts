@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { deriveOrderStatus } from "@/lib/fulfilments";
+
+describe("deriveOrderStatus", () => {
+  it("null si el pedido no tiene sub-pedidos", () => {
+    expect(deriveOrderStatus([])).toBeNull();
+  });
+
+  it("toma el estado del sub-pedido más atrasado", () => {
+    expect(deriveOrderStatus(["DELIVERED", "PREPARING", "READY"])).toBe("PREPARING");
+    expect(deriveOrderStatus(["CONFIRMED", "PENDING"])).toBe("PENDING");
+    expect(deriveOrderStatus(["DELIVERED", "DELIVERED"])).toBe("DELIVERED");
+  });
+
+  it("no cuenta los sub-pedidos cancelados", () => {
+    expect(deriveOrderStatus(["CANCELLED", "READY"])).toBe("READY");
+    expect(deriveOrderStatus(["PENDING", "CANCELLED", "DELIVERED"])).toBe("PENDING");
+  });
+
+  it("CANCELLED si están todos cancelados", () => {
+    expect(deriveOrderStatus(["CANCELLED", "CANCELLED"])).toBe("CANCELLED");
+  });
+});
@@ -0,0 +1,173 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+import {
+  ORDER_FLOW,
+  OrderTransitionError,
+  canTransition,
+  transitionOrder,
+} from "@/lib/orderStatus";
+
+type Tx = Prisma.TransactionClient;
+
+// Lo que el vendedor marca en su sub-pedido; confirmar (pago), entregar y
+// cancelar se hacen sobre el pedido completo
+export const SELLER_FULFILMENT_STATUSES: readonly OrderStatus[] = [
+  "PREPARING",
+  "READY",
+];
+
+export type FulfilmentRejection = "FULFILMENT_NOT_FOUND" | "STATUS_NOT_ALLOWED";
+
+/** Se lanza cuando el vendedor no puede mover su sub-pedido */
+export class FulfilmentError extends Error {
+  readonly reason: FulfilmentRejection;
+
+  constructor(reason: FulfilmentRejection) {
+    super(reason);
+    this.name = "FulfilmentError";
+    this.reason = reason;
+  }
+}
+
+/**
+ * Estado del pedido según sus sub-pedidos: el del más atrasado, sin contar
+ * los cancelados (CANCELLED si lo están todos). null si no tiene ninguno.
+ */
+export function deriveOrderStatus(statuses: OrderStatus[]): OrderStatus | null {
+  if (statuses.length === 0) return null;
+  const active = statuses.filter((s) => s !== "CANCELLED");
+  if (active.length === 0) return "CANCELLED";
+  return ORDER_FLOW[Math.min(...active.map((s) => ORDER_FLOW.indexOf(s)))];
+}
+
+/**
+ * Agrupa los ítems del pedido por dueño del producto: crea el sub-pedido
+ * de cada vendedor nuevo (con el estado actual del pedido), enlaza los
+ * ítems y recalcula subtotales. Un sub-pedido que se queda sin ítems pasa
+ * a CANCELLED (se conserva su historial). Se llama al crear y al editar.
+ */
+export async function syncFulfilments(tx: Tx, orderId: string) {
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: {
+      status: true,
+      items: {
+        select: {
+          id: true,
+          price: true,
+          quantity: true,
+          fulfilmentId: true,
+          product: { select: { ownerId: true } },
+          personalizations: { select: { price: true } },
+        },
+      },
+      fulfilments: { select: { id: true, sellerId: true, status: true } },
+    },
+  });
+
+  const bySeller = new Map<string, typeof order.items>();
+  for (const item of order.items) {
+    const sellerId = item.product.ownerId;
+    bySeller.set(sellerId, [...(bySeller.get(sellerId) ?? []), item]);
+  }
+
+  for (const [sellerId, items] of bySeller) {
+    const totals = {
+      subtotal: items.reduce((sum, it) => sum + it.price * it.quantity, 0),
+      extrasTotal: items
+        .flatMap((it) => it.personalizations)
+        .reduce((sum, p) => sum + p.price, 0),
+    };
+    const existing = order.fulfilments.find((f) => f.sellerId === sellerId);
+    const fulfilment = existing
+      ? await tx.fulfilment.update({
+          where: { id: existing.id },
+          data: {
+            ...totals,
+            // vuelve a tener ítems: retoma el estado del pedido
+            ...(existing.status === "CANCELLED" && { status: order.status }),
+          },
+        })
+      : await tx.fulfilment.create({
+          data: { orderId, sellerId, status: order.status, ...totals },
+        });
+
+    const unlinked = items.filter((it) => it.fulfilmentId !== fulfilment.id);
+    if (unlinked.length > 0) {
+      await tx.orderItem.updateMany({
+        where: { id: { in: unlinked.map((it) => it.id) } },
+        data: { fulfilmentId: fulfilment.id },
+      });
+    }
+  }
+
+  const emptied = order.fulfilments.filter((f) => !bySeller.has(f.sellerId));
+  if (emptied.length > 0) {
+    await tx.fulfilment.updateMany({
+      where: { id: { in: emptied.map((f) => f.id) } },
+      data: { status: "CANCELLED", subtotal: 0, extrasTotal: 0 },
+    });
+  }
+}
+
+/**
+ * El vendedor avanza su sub-pedido (PREPARING o READY) y el pedido avanza
+ * con él cuando ya no queda ningún otro sub-pedido más atrasado.
+ * Debe llamarse dentro de una transacción.
+ */
+export async function advanceFulfilment(
+  tx: Tx,
+  params: {
+    orderId: string;
+    sellerId: string;
+    to: OrderStatus;
+    changedById: string;
+  }
+) {
+  const { orderId, sellerId, to } = params;
+  if (!SELLER_FULFILMENT_STATUSES.includes(to)) {
+    throw new FulfilmentError("STATUS_NOT_ALLOWED");
+  }
+
+  // Bloqueamos el pedido: dos vendedores que terminan a la vez deben ver
+  // el estado del otro al derivar el del pedido
+  await tx.$executeRaw`SELECT 1 FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+  const fulfilment = await tx.fulfilment.findUnique({
+    where: { orderId_sellerId: { orderId, sellerId } },
+  });
+  if (!fulfilment) throw new FulfilmentError("FULFILMENT_NOT_FOUND");
+  if (!canTransition(fulfilment.status, to)) {
+    throw new OrderTransitionError(fulfilment.status, to);
+  }
+
+  const updated = await tx.fulfilment.update({
+    where: { id: fulfilment.id },
+    data: { status: to },
+  });
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId,
+      fulfilmentId: fulfilment.id,
+      fromStatus: fulfilment.status,
+      toStatus: to,
+      changedById: params.changedById,
+    },
+  });
+
+  const order = await tx.order.findUniqueOrThrow({
+    where: { id: orderId },
+    select: { status: true, fulfilments: { select: { status: true } } },
+  });
+  const derived = deriveOrderStatus(order.fulfilments.map((f) => f.status));
+  let orderStatus = order.status;
+  if (derived && derived !== order.status && canTransition(order.status, derived)) {
+    await transitionOrder(tx, {
+      orderId,
+      to: derived,
+      changedById: params.changedById,
+      reason: "FULFILMENTS",
+    });
+    orderStatus = derived;
+  }
+
+  return { fulfilment: updated, orderStatus };
+}
@@ -0,0 +1,32 @@
+export type LatLng = { lat: number; lng: number };
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRad = (deg: number) => (deg * Math.PI) / 180;
+
+/** Distancia en km entre dos puntos (fórmula de haversine) */
+export function haversineKm(a: LatLng, b: LatLng): number {
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Ray casting: true si el punto cae dentro del polígono. Alcanza para
+ * zonas de una ciudad (no considera la curvatura ni el antimeridiano).
+ */
+export function pointInPolygon(point: LatLng, polygon: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
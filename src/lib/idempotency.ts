@@ -0,0 +1,172 @@
+import { createHash } from "crypto";
+import type { NextRequest } from "next/server";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { verifyJwtFromRequest } from "@/lib/auth";
+import { withCORS } from "@/lib/cors";
+
+// Horas que se guarda la respuesta de cada Idempotency-Key
+export const IDEMPOTENCY_TTL_HOURS = Number(
+  process.env.IDEMPOTENCY_TTL_HOURS || 24
+);
+
+// Segundos tras los que un key sin respuesta se da por abandonado (el
+// proceso murió o la función se cortó) y el reintento lo puede tomar
+export const IDEMPOTENCY_LOCK_SECONDS = Number(
+  process.env.IDEMPOTENCY_LOCK_SECONDS || 60
+);
+
+const MAX_KEY_LENGTH = 255;
+
+function sha256(data: string | Buffer) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * Huella del request: usuario + body. En multipart se usan los campos y el
+ * contenido de los archivos, no el body crudo (el boundary cambia en cada
+ * reintento).
+ */
+async function hashRequest(req: NextRequest, userId: string | null) {
+  const ct = req.headers.get("content-type") || "";
+  let body: unknown;
+  if (ct.includes("multipart/form-data")) {
+    const form = await req.clone().formData();
+    const fields: unknown[] = [];
+    for (const [name, value] of form.entries()) {
+      fields.push(
+        typeof value === "string"
+          ? [name, value]
+          : [name, value.name, value.size, sha256(Buffer.from(await value.arrayBuffer()))]
+      );
+    }
+    body = fields;
+  } else {
+    body = await req.clone().text();
+  }
+  return sha256(JSON.stringify([userId, body]));
+}
+
+async function requestUserId(req: NextRequest) {
+  try {
+    const payload = await verifyJwtFromRequest(req);
+    return typeof payload.sub === "string" ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+function conflict(error: string, message: string, origin: string | null) {
+  return new Response(
+    JSON.stringify({ error, message }),
+    withCORS({ status: 409 }, origin)
+  );
+}
+
+/**
+ * Ejecuta el handler una sola vez por Idempotency-Key (si el header viene).
+ *  - Reintento con el mismo body → se devuelve la respuesta guardada.
+ *  - Mismo key con otro body (u otro usuario) → 409.
+ *  - Mismo key mientras el primero sigue en curso → 409 (pasados
+ *    IDEMPOTENCY_LOCK_SECONDS sin respuesta, el reintento se procesa).
+ * Las respuestas 5xx no se guardan, así el cliente puede reintentar.
+ */
+export async function withIdempotency(
+  req: NextRequest,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const key = req.headers.get("idempotency-key")?.trim();
+  if (!key) return handler();
+
+  const origin = req.headers.get("origin");
+  if (key.length > MAX_KEY_LENGTH) {
+    return new Response(
+      JSON.stringify({ error: "INVALID_IDEMPOTENCY_KEY" }),
+      withCORS({ status: 400 }, origin)
+    );
+  }
+
+  const scope = `${req.method} ${new URL(req.url).pathname}`;
+  const requestHash = await hashRequest(req, await requestUserId(req));
+  const now = new Date();
+
+  // Los keys vencidos se liberan (y se pueden volver a usar), igual que
+  // este key si quedó en curso más allá del lock
+  await prisma.idempotencyKey.deleteMany({
+    where: {
+      OR: [
+        { expiresAt: { lt: now } },
+        {
+          scope,
+          key,
+          status: null,
+          createdAt: {
+            lt: new Date(now.getTime() - IDEMPOTENCY_LOCK_SECONDS * 1000),
+          },
+        },
+      ],
+    },
+  });
+
+  let record;
+  try {
+    record = await prisma.idempotencyKey.create({
+      data: {
+        scope,
+        key,
+        requestHash,
+        expiresAt: new Date(now.getTime() + IDEMPOTENCY_TTL_HOURS * 60 * 60 * 1000),
+      },
+    });
+  } catch (err) {
+    if (
+      !(err instanceof Prisma.PrismaClientKnownRequestError) ||
+      err.code !== "P2002"
+    ) {
+      throw err;
+    }
+    const existing = await prisma.idempotencyKey.findUnique({
+      where: { scope_key: { scope, key } },
+    });
+    if (!existing || existing.requestHash !== requestHash) {
+      return conflict(
+        "IDEMPOTENCY_KEY_REUSED",
+        "El Idempotency-Key ya se usó con otro request.",
+        origin
+      );
+    }
+    if (existing.status === null) {
+      return conflict(
+        "IDEMPOTENCY_KEY_IN_PROGRESS",
+        "El request original todavía se está procesando.",
+        origin
+      );
+    }
+    return new Response(
+      existing.response,
+      withCORS(
+        { status: existing.status, headers: { "Idempotent-Replayed": "true" } },
+        origin
+      )
+    );
+  }
+
+  let res: Response;
+  try {
+    res = await handler();
+  } catch (err) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: record.id } });
+    throw err;
+  }
+
+  // *Many: si tardamos más que el lock, un reintento ya pudo tomar el key
+  if (res.status >= 500) {
+    await prisma.idempotencyKey.deleteMany({ where: { id: record.id } });
+  } else {
+    await prisma.idempotencyKey.updateMany({
+      where: { id: record.id },
+      data: { status: res.status, response: await res.clone().text() },
+    });
+  }
+  return res;
+}
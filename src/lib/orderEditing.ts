@@ -0,0 +1,291 @@
+import { Prisma } from "@prisma/client";
+import { isTerminalStatus } from "@/lib/orderStatus";
+import { OrderLineInput, priceOrderLines } from "@/lib/pricing";
+import {
+  PersonalizationError,
+  PersonalizationInput,
+  loadPersonalizationCatalog,
+  pricePersonalization,
+} from "@/lib/personalization";
+import { computePromotionDiscount } from "@/lib/promotions";
+import {
+  StockAllocation,
+  requiredDeposit,
+  reserveOrBackorder,
+} from "@/lib/backorders";
+import { getStoreSettings } from "@/lib/settings";
+import { syncFulfilments } from "@/lib/fulfilments";
+import { heldQuantity, restockLines } from "@/lib/stock";
+
+type Tx = Prisma.TransactionClient;
+
+export type OrderItemChanges = {
+  add: Array<OrderLineInput & { personalization: PersonalizationInput[] }>;
+  remove: string[]; // orderItemId
+  // cambio de talle (variante del mismo producto) y/o cantidad
+  update: Array<{ orderItemId: string; variantId?: string; qty?: number }>;
+};
+
+export type OrderEditRejection =
+  | "ORDER_NOT_FOUND"
+  | "ORDER_LOCKED"
+  | "ITEM_NOT_FOUND"
+  | "ITEM_REFUNDED"
+  | "EMPTY_ORDER";
+
+/** Se lanza cuando la edición pedida no se puede aplicar */
+export class OrderEditError extends Error {
+  readonly reason: OrderEditRejection;
+  readonly items?: string[];
+
+  constructor(reason: OrderEditRejection, items?: string[]) {
+    super(reason);
+    this.name = "OrderEditError";
+    this.reason = reason;
+    this.items = items;
+  }
+}
+
+/**
+ * Agrega, quita o modifica líneas de un pedido no terminado.
+ *  - Los precios de líneas nuevas o con otro talle se toman del catálogo
+ *    vigente; una línea que sólo cambia de cantidad conserva su precio.
+ *  - Si el pedido tiene stock reservado, las líneas tocadas devuelven sus
+ *    unidades y reservan de nuevo; lo que falte queda encargado si la
+ *    variante lo admite (si no, StockError).
+ *  - Se recalculan subtotal, extras, los descuentos ya aplicados, el total,
+ *    la seña requerida y los sub-pedidos por vendedor, y se deja el
+ *    detalle en el historial. Los pagos no se tocan.
+ */
+export async function editOrderItems(
+  tx: Tx,
+  orderId: string,
+  changes: OrderItemChanges,
+  editedById: string
+) {
+  // Bloqueamos el pedido: dos ediciones simultáneas no deben pisarse
+  await tx.$executeRaw`SELECT 1 FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    include: {
+      items: {
+        include: {
+          product: { select: { league: true, quality: true, kit: true } },
+        },
+      },
+      discounts: { include: { promotion: true } },
+    },
+  });
+  if (!order) throw new OrderEditError("ORDER_NOT_FOUND");
+  if (isTerminalStatus(order.status)) throw new OrderEditError("ORDER_LOCKED");
+
+  const touched = [...changes.remove, ...changes.update.map((u) => u.orderItemId)];
+  const missing = touched.filter((id) => !order.items.some((i) => i.id === id));
+  if (missing.length > 0) throw new OrderEditError("ITEM_NOT_FOUND", missing);
+  // Las líneas con devoluciones ya tienen egresos y stock asociados
+  const refunded = touched.filter(
+    (id) => order.items.find((i) => i.id === id)!.refundedQuantity > 0
+  );
+  if (refunded.length > 0) throw new OrderEditError("ITEM_REFUNDED", refunded);
+
+  const removed = new Set(changes.remove);
+  const updates = changes.update.filter((u) => !removed.has(u.orderItemId));
+  if (order.items.length - removed.size + changes.add.length === 0) {
+    throw new OrderEditError("EMPTY_ORDER");
+  }
+
+  // Precio y snapshot de las variantes nuevas (valida que sean del producto)
+  const swaps = updates.filter((u) => u.variantId);
+  const priced = await priceOrderLines(tx, [
+    ...changes.add,
+    ...swaps.map((u) => {
+      const item = order.items.find((i) => i.id === u.orderItemId)!;
+      return {
+        productId: item.productId,
+        variantId: u.variantId!,
+        qty: u.qty ?? item.quantity,
+      };
+    }),
+  ]);
+  const addedLines = priced.slice(0, changes.add.length);
+  const swappedLines = priced.slice(changes.add.length);
+
+  // Personalización de las líneas nuevas
+  const catalog = await loadPersonalizationCatalog(tx);
+  const personalizationIssues: PersonalizationError["items"] = [];
+  const addedPersonalizations = changes.add.map((it, itemIndex) => {
+    const { priced, issues } = pricePersonalization(
+      it.personalization,
+      addedLines[itemIndex],
+      catalog
+    );
+    issues.forEach((i) => personalizationIssues.push({ ...i, itemIndex }));
+    return priced;
+  });
+  if (personalizationIssues.length > 0) {
+    throw new PersonalizationError(personalizationIssues);
+  }
+
+  // Stock: las líneas que cambian devuelven lo que tenían y vuelven a
+  // reservar (o encargar) lo nuevo; sólo si el pedido tiene stock reservado
+  const settings = await getStoreSettings(tx);
+  const allocations = new Map<string, StockAllocation>(); // orderItemId → asignación
+  let addedAllocations: StockAllocation[] = [];
+  if (order.stockReservedAt && !order.stockReleasedAt) {
+    const changed = order.items.filter(
+      (i) => removed.has(i.id) || updates.some((u) => u.orderItemId === i.id)
+    );
+    await restockLines(
+      tx,
+      changed
+        .filter((i) => i.variantId)
+        .map((i) => ({
+          productId: i.productId,
+          variantId: i.variantId!,
+          qty: heldQuantity(i),
+        }))
+    );
+
+    const reserved = updates.flatMap((u) => {
+      const item = order.items.find((i) => i.id === u.orderItemId)!;
+      const variantId = u.variantId ?? item.variantId;
+      if (!variantId) return [];
+      return [
+        {
+          orderItemId: item.id,
+          productId: item.productId,
+          variantId,
+          qty: u.qty ?? item.quantity,
+        },
+      ];
+    });
+    const result = await reserveOrBackorder(tx, [...reserved, ...addedLines], settings);
+    reserved.forEach((r, i) => allocations.set(r.orderItemId, result[i]));
+    addedAllocations = result.slice(reserved.length);
+  }
+
+  // ----- Escritura de las líneas -----
+  if (removed.size > 0) {
+    await tx.orderItem.deleteMany({ where: { id: { in: [...removed] } } });
+  }
+  for (const u of updates) {
+    const item = order.items.find((i) => i.id === u.orderItemId)!;
+    const swap = u.variantId ? swappedLines[swaps.indexOf(u)] : null;
+    const qty = u.qty ?? item.quantity;
+    await tx.orderItem.update({
+      where: { id: item.id },
+      data: {
+        quantity: qty,
+        ...(allocations.has(item.id) && {
+          backorderedQuantity: allocations.get(item.id)!.backordered,
+          backorderLeadDays: allocations.get(item.id)!.leadDays,
+        }),
+        ...(swap && {
+          variantId: swap.variantId,
+          variantName: swap.variantName,
+          sku: swap.sku,
+          title: swap.title,
+          price: swap.unitPrice,
+          imageUrl: swap.imageUrl,
+        }),
+      },
+    });
+    // Las personalizaciones de unidades que ya no existen se descartan
+    await tx.orderItemPersonalization.deleteMany({
+      where: { orderItemId: item.id, unitIndex: { gte: qty } },
+    });
+  }
+  for (const [i, l] of addedLines.entries()) {
+    await tx.orderItem.create({
+      data: {
+        orderId,
+        productId: l.productId,
+        variantId: l.variantId,
+        variantName: l.variantName,
+        sku: l.sku,
+        title: l.title,
+        price: l.unitPrice,
+        quantity: l.qty,
+        backorderedQuantity: addedAllocations[i]?.backordered ?? 0,
+        backorderLeadDays: addedAllocations[i]?.leadDays ?? null,
+        imageUrl: l.imageUrl,
+        personalizations: { create: addedPersonalizations[i] },
+      },
+    });
+  }
+
+  // ----- Totales -----
+  const items = await tx.orderItem.findMany({
+    where: { orderId },
+    include: {
+      product: { select: { league: true, quality: true, kit: true } },
+      personalizations: { select: { price: true } },
+    },
+  });
+  const subtotal = items.reduce((sum, it) => sum + it.price * it.quantity, 0);
+  const extrasTotal = items
+    .flatMap((it) => it.personalizations)
+    .reduce((sum, p) => sum + p.price, 0);
+
+  // Las promociones ya aplicadas se recalculan sobre las líneas nuevas
+  const scoped = items.map((it) => ({
+    productId: it.productId,
+    qty: it.quantity,
+    unitPrice: it.price,
+    league: it.product.league,
+    quality: it.product.quality,
+    kit: it.product.kit,
+  }));
+  let remaining = subtotal;
+  let discountTotal = 0;
+  for (const d of order.discounts) {
+    const amount = Math.min(computePromotionDiscount(d.promotion, scoped), remaining);
+    remaining -= amount;
+    discountTotal += amount;
+    if (amount !== d.amount) {
+      await tx.promotionRedemption.update({
+        where: { id: d.id },
+        data: { amount },
+      });
+    }
+  }
+
+  const totalPrice = subtotal + extrasTotal - discountTotal + order.deliveryFee;
+  const depositRequired = requiredDeposit(
+    totalPrice,
+    items.some((it) => it.backorderedQuantity > 0),
+    settings
+  );
+  await tx.order.update({
+    where: { id: orderId },
+    data: { subtotal, extrasTotal, discountTotal, totalPrice, depositRequired },
+  });
+  await syncFulfilments(tx, orderId);
+
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId,
+      fromStatus: order.status,
+      toStatus: order.status,
+      changedById: editedById,
+      reason: "ITEMS_EDITED",
+      details: {
+        added: addedLines.map((l) => ({ title: l.title, qty: l.qty })),
+        removed: order.items
+          .filter((i) => removed.has(i.id))
+          .map((i) => ({ title: i.title, qty: i.quantity })),
+        updated: updates.map((u) => {
+          const item = order.items.find((i) => i.id === u.orderItemId)!;
+          const swap = u.variantId ? swappedLines[swaps.indexOf(u)] : null;
+          return {
+            from: { title: item.title, qty: item.quantity },
+            to: { title: swap?.title ?? item.title, qty: u.qty ?? item.quantity },
+          };
+        }),
+        totalPrice: { from: order.totalPrice, to: totalPrice },
+      },
+    },
+  });
+
+  return { subtotal, extrasTotal, discountTotal, totalPrice, depositRequired };
+}
@@ -0,0 +1,203 @@
+import { OrderStatus, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { ACTIVE_PAYMENT } from "@/lib/payments";
+import { accrueSellerEarnings } from "@/lib/commissions";
+import { releaseOrderStock } from "@/lib/stock";
+
+type Tx = Prisma.TransactionClient;
+
+// ===== Tabla de transiciones =====
+// PENDING → CONFIRMED → PREPARING → READY → DELIVERED
+// CANCELLED desde cualquier estado no terminal
+export const ORDER_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  PENDING: ["CONFIRMED", "CANCELLED"],
+  CONFIRMED: ["PREPARING", "CANCELLED"],
+  PREPARING: ["READY", "CANCELLED"],
+  READY: ["DELIVERED", "CANCELLED"],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+// Avance normal de un pedido (o sub-pedido), sin la cancelación
+export const ORDER_FLOW: readonly OrderStatus[] = [
+  "PENDING",
+  "CONFIRMED",
+  "PREPARING",
+  "READY",
+  "DELIVERED",
+];
+
+// Estados que cuentan como venta concretada (reemplaza al legacy "paid")
+export const PAID_ORDER_STATUSES: OrderStatus[] = [
+  "CONFIRMED",
+  "PREPARING",
+  "READY",
+  "DELIVERED",
+];
+
+// Valores que aceptaba PATCH /api/orders/[id] antes del enum
+const LEGACY_STATUS: Record<string, OrderStatus> = {
+  pending: "PENDING",
+  paid: "CONFIRMED",
+  canceled: "CANCELLED",
+};
+
+export function isTerminalStatus(status: OrderStatus) {
+  return ORDER_TRANSITIONS[status].length === 0;
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return ORDER_TRANSITIONS[from].includes(to);
+}
+
+/** Acepta el enum en cualquier capitalización y los valores legacy */
+export function parseOrderStatus(value: string): OrderStatus | null {
+  const lower = value.trim().toLowerCase();
+  if (Object.hasOwn(LEGACY_STATUS, lower)) return LEGACY_STATUS[lower];
+  const upper = lower.toUpperCase();
+  return Object.hasOwn(ORDER_TRANSITIONS, upper) ? (upper as OrderStatus) : null;
+}
+
+export const OrderStatusInput = z.string().transform((val, ctx) => {
+  const status = parseOrderStatus(val);
+  if (!status) {
+    ctx.addIssue({ code: "custom", message: "INVALID_STATUS" });
+    return z.NEVER;
+  }
+  return status;
+});
+
+/** Se lanza cuando se pide una transición que la tabla no permite */
+export class OrderTransitionError extends Error {
+  readonly from: OrderStatus;
+  readonly to: OrderStatus;
+
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super("INVALID_TRANSITION");
+    this.name = "OrderTransitionError";
+    this.from = from;
+    this.to = to;
+  }
+
+  toJSON() {
+    return {
+      error: "INVALID_TRANSITION",
+      from: this.from,
+      to: this.to,
+      allowed: ORDER_TRANSITIONS[this.from],
+    };
+  }
+}
+
+/** Un pedido con encargos no se confirma hasta cubrir la seña mínima */
+export class DepositRequiredError extends OrderTransitionError {
+  readonly required: number;
+  readonly paid: number;
+
+  constructor(from: OrderStatus, required: number, paid: number) {
+    super(from, "CONFIRMED");
+    this.message = "DEPOSIT_REQUIRED";
+    this.name = "DepositRequiredError";
+    this.required = required;
+    this.paid = paid;
+  }
+
+  toJSON() {
+    return {
+      ...super.toJSON(),
+      error: "DEPOSIT_REQUIRED",
+      required: this.required,
+      paid: this.paid,
+    };
+  }
+}
+
+/**
+ * Aplica una transición de estado validada contra ORDER_TRANSITIONS,
+ * registra quién la hizo en OrderStatusHistory y, al cancelar, devuelve
+ * el stock reservado y libera al repartidor asignado. Para confirmar exige
+ * la seña de los encargos. Los sub-pedidos que quedaron atrás se alinean
+ * y, al entregar, se acredita lo vendido a cada vendedor.
+ * Debe llamarse dentro de una transacción.
+ */
+export async function transitionOrder(
+  tx: Tx,
+  params: {
+    orderId: string;
+    to: OrderStatus;
+    changedById?: string | null;
+    reason?: string | null;
+  }
+) {
+  const { orderId, to } = params;
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { status: true, depositRequired: true },
+  });
+  if (!order) throw new Error("ORDER_NOT_FOUND");
+  if (!canTransition(order.status, to)) {
+    throw new OrderTransitionError(order.status, to);
+  }
+  if (to === "CONFIRMED" && order.depositRequired > 0) {
+    const { _sum } = await tx.orderPayment.aggregate({
+      where: { orderId, ...ACTIVE_PAYMENT },
+      _sum: { amount: true },
+    });
+    const paid = _sum.amount ?? 0;
+    if (paid < order.depositRequired) {
+      throw new DepositRequiredError(order.status, order.depositRequired, paid);
+    }
+  }
+
+  // Condicional sobre el estado leído: si otro request lo cambió, falla
+  const { count } = await tx.order.updateMany({
+    where: { id: orderId, status: order.status },
+    data:
+      to === "CANCELLED"
+        ? {
+            status: to,
+            cancelledAt: new Date(),
+            cancelReason: params.reason ?? null,
+          }
+        : { status: to },
+  });
+  if (count === 0) throw new OrderTransitionError(order.status, to);
+
+  await tx.orderStatusHistory.create({
+    data: {
+      orderId,
+      fromStatus: order.status,
+      toStatus: to,
+      changedById: params.changedById ?? null,
+      reason: params.reason ?? null,
+    },
+  });
+
+  // Los sub-pedidos atrasados acompañan al pedido (al cancelar, todos)
+  await tx.fulfilment.updateMany({
+    where: {
+      orderId,
+      status: {
+        in:
+          to === "CANCELLED"
+            ? ORDER_FLOW.filter((s) => !isTerminalStatus(s))
+            : ORDER_FLOW.slice(0, ORDER_FLOW.indexOf(to)),
+      },
+    },
+    data: { status: to },
+  });
+
+  // Lo vendido por cada vendedor pasa a su cuenta corriente
+  if (to === "DELIVERED") await accrueSellerEarnings(tx, orderId);
+
+  if (to === "CANCELLED") {
+    await releaseOrderStock(tx, orderId);
+    // El repartidor ya no tiene que llevarlo
+    await tx.deliveryAssignment.updateMany({
+      where: { orderId, status: { in: ["ASSIGNED", "PICKED_UP"] } },
+      data: { status: "CANCELLED" },
+    });
+  }
+
+  return { from: order.status, to };
+}
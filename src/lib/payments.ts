@@ -0,0 +1,199 @@
+import { PaymentMethod, Prisma, PrismaClient } from "@prisma/client";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+type Tx = Prisma.TransactionClient;
+
+export const PAYMENT_METHOD_LABEL: Record<PaymentMethod, string> = {
+  CASH: "efectivo",
+  BANK_TRANSFER: "transferencia",
+  QR: "QR",
+  CARD: "tarjeta",
+  OTHER: "otro",
+};
+
+/** Sólo cuentan los pagos no anulados */
+export const ACTIVE_PAYMENT = { voidedAt: null } satisfies Prisma.OrderPaymentWhereInput;
+
+export type PaymentRejection =
+  | "ORDER_NOT_FOUND"
+  | "ORDER_CANCELLED"
+  | "AMOUNT_EXCEEDS_BALANCE"
+  | "PAYMENT_NOT_FOUND"
+  | "ALREADY_VOIDED"
+  | "PAYMENT_REFUNDED";
+
+/** Se lanza cuando no se puede registrar o anular un pago */
+export class PaymentError extends Error {
+  readonly reason: PaymentRejection;
+  readonly balance?: number;
+
+  constructor(reason: PaymentRejection, balance?: number) {
+    super(reason);
+    this.name = "PaymentError";
+    this.reason = reason;
+    this.balance = balance;
+  }
+}
+
+/** Total pagado y saldo pendiente (negativo = pagado de más) */
+export function summarizePayments(
+  totalPrice: number,
+  payments: Array<{ amount: number; voidedAt?: Date | null }>
+) {
+  const paidTotal = payments
+    .filter((p) => !p.voidedAt)
+    .reduce((sum, p) => sum + p.amount, 0);
+  return { paidTotal, balance: totalPrice - paidTotal };
+}
+
+export async function getOrderBalance(db: Db, orderId: string) {
+  const order = await db.order.findUnique({
+    where: { id: orderId },
+    select: {
+      totalPrice: true,
+      payments: { where: ACTIVE_PAYMENT, select: { amount: true } },
+    },
+  });
+  if (!order) return null;
+  return {
+    totalPrice: order.totalPrice,
+    ...summarizePayments(order.totalPrice, order.payments),
+  };
+}
+
+export type PaymentInput = {
+  amount: number;
+  method: PaymentMethod;
+  reference?: string | null;
+  receiptUrl?: string | null;
+  receiptPublicId?: string | null;
+  paidAt?: Date;
+};
+
+/**
+ * Registra un cobro del pedido y su ingreso en el libro de caja. No permite
+ * cobrar más que el saldo pendiente ni cobrar pedidos cancelados.
+ */
+export async function recordPayment(
+  tx: Tx,
+  orderId: string,
+  input: PaymentInput,
+  recordedById: string
+) {
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, userId: true, status: true, totalPrice: true },
+  });
+  if (!order) throw new PaymentError("ORDER_NOT_FOUND");
+  if (order.status === "CANCELLED") throw new PaymentError("ORDER_CANCELLED");
+
+  // Bloqueamos el pedido para que dos cobros simultáneos no superen el total
+  await tx.$executeRaw`SELECT 1 FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+  const { balance } = (await getOrderBalance(tx, orderId))!;
+  if (input.amount > balance) {
+    throw new PaymentError("AMOUNT_EXCEEDS_BALANCE", balance);
+  }
+
+  const paidAt = input.paidAt ?? new Date();
+  const transaction = await tx.transaction.create({
+    data: {
+      userId: order.userId || recordedById,
+      type: "INCOME",
+      amount: input.amount,
+      description: `Pago (${PAYMENT_METHOD_LABEL[input.method]}) del pedido #${order.id.slice(-8)}`,
+      category: "venta",
+      occurredAt: paidAt,
+      TransactionImage: input.receiptUrl
+        ? {
+            create: {
+              imageUrl: input.receiptUrl,
+              imagePublicId: input.receiptPublicId ?? null,
+            },
+          }
+        : undefined,
+    },
+  });
+
+  return tx.orderPayment.create({
+    data: {
+      orderId,
+      amount: input.amount,
+      method: input.method,
+      reference: input.reference ?? null,
+      receiptUrl: input.receiptUrl ?? null,
+      receiptPublicId: input.receiptPublicId ?? null,
+      transactionId: transaction.id,
+      recordedById,
+      paidAt,
+    },
+  });
+}
+
+/**
+ * Anula un pago: deja de contar para el saldo y su ingreso se compensa en
+ * el libro de caja con un EXPENSE enlazado (reversalOf), como un
+ * reembolso. El pago y el ingreso original se conservan como auditoría.
+ */
+export async function voidPayment(
+  tx: Tx,
+  orderId: string,
+  paymentId: string,
+  reason?: string
+) {
+  const payment = await tx.orderPayment.findFirst({
+    where: { id: paymentId, orderId },
+  });
+  if (!payment) throw new PaymentError("PAYMENT_NOT_FOUND");
+  // Si ya se devolvió dinero, el egreso del reembolso quedaría huérfano
+  if (payment.refundedAmount > 0) throw new PaymentError("PAYMENT_REFUNDED");
+
+  // Condicional: si dos pedidos de anulación compiten, sólo uno gana
+  const { count } = await tx.orderPayment.updateMany({
+    where: { id: paymentId, voidedAt: null },
+    data: { voidedAt: new Date(), voidReason: reason ?? null },
+  });
+  if (count === 0) throw new PaymentError("ALREADY_VOIDED");
+
+  if (payment.transactionId) {
+    const income = await tx.transaction.findUnique({
+      where: { id: payment.transactionId },
+      select: { id: true, userId: true, amount: true },
+    });
+    if (income) {
+      await tx.transaction.create({
+        data: {
+          userId: income.userId,
+          type: "EXPENSE",
+          amount: income.amount,
+          description: `Anulación de pago del pedido #${orderId.slice(-8)}${
+            reason ? ` (${reason})` : ""
+          }`,
+          category: "anulación",
+          occurredAt: new Date(),
+          reversalOfId: income.id,
+        },
+      });
+    }
+  }
+  return tx.orderPayment.findUniqueOrThrow({ where: { id: paymentId } });
+}
+
+/**
+ * Al entregar, lo que quede pendiente se cobra en ese momento (antes se
+ * creaba la transacción de "saldo"). Retorna el pago creado o null.
+ */
+export async function settleBalanceOnDelivery(
+  tx: Tx,
+  orderId: string,
+  recordedById: string,
+  method: PaymentMethod = "CASH"
+) {
+  const summary = await getOrderBalance(tx, orderId);
+  if (!summary || summary.balance <= 0) return null;
+  return recordPayment(
+    tx,
+    orderId,
+    { amount: summary.balance, method, reference: "Saldo al entregar" },
+    recordedById
+  );
+}
@@ -0,0 +1,153 @@
+import {
+  PersonalizationKind,
+  PersonalizationOption,
+  Prisma,
+  PrismaClient,
+  ProductQuality,
+} from "@prisma/client";
+import { z } from "zod";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Código con el que se migró el viejo Order.hasPatch (parche genérico)
+export const LEGACY_PATCH_CODE = "PATCH";
+
+// ===== Schemas =====
+// Personalización de UNA camiseta (unidad) dentro de una línea del pedido
+export const PersonalizationSchema = z
+  .object({
+    name: z
+      .string()
+      .trim()
+      .min(1)
+      .max(15)
+      .regex(/^[\p{L} .'-]+$/u, "Sólo letras, espacios y . ' -")
+      .transform((v) => v.toUpperCase())
+      .optional(),
+    number: z.number().int().min(1).max(99).optional(),
+    // códigos del catálogo: parches de liga/copa o sponsors de manga
+    patches: z
+      .array(z.string().trim().min(1).max(40).transform((v) => v.toUpperCase()))
+      .max(4)
+      .default([]),
+  })
+  .refine((p) => new Set(p.patches).size === p.patches.length, {
+    message: "Parches duplicados",
+    path: ["patches"],
+  });
+
+export type PersonalizationInput = z.infer<typeof PersonalizationSchema>;
+
+export type PricedPersonalization = {
+  unitIndex: number; // 0..quantity-1
+  name: string | null;
+  number: number | null;
+  patches: string[];
+  price: number; // extras de esta unidad en Gs
+};
+
+export type PersonalizationIssue = {
+  unitIndex: number;
+  code: string;
+  error: "OPTION_UNAVAILABLE";
+};
+
+/** Se lanza cuando una unidad pide una opción inexistente o no aplicable */
+export class PersonalizationError extends Error {
+  readonly items: Array<PersonalizationIssue & { itemIndex: number }>;
+
+  constructor(items: Array<PersonalizationIssue & { itemIndex: number }>) {
+    super("INVALID_PERSONALIZATION");
+    this.name = "PersonalizationError";
+    this.items = items;
+  }
+}
+
+type ProductScope = { league: string | null; quality: ProductQuality | null };
+
+/** Listas vacías en la opción = aplica a todas las ligas / calidades */
+export function isOptionApplicable(
+  option: Pick<PersonalizationOption, "leagues" | "qualities">,
+  product: ProductScope
+) {
+  const leagueOk =
+    option.leagues.length === 0 ||
+    (!!product.league && option.leagues.includes(product.league));
+  const qualityOk =
+    option.qualities.length === 0 ||
+    (!!product.quality && option.qualities.includes(product.quality));
+  return leagueOk && qualityOk;
+}
+
+/** Opciones activas del catálogo (se cargan una vez por pedido) */
+export async function loadPersonalizationCatalog(db: Db) {
+  return db.personalizationOption.findMany({ where: { active: true } });
+}
+
+// Para nombre/número gana la opción más específica (p.ej. nombre Player Version)
+function pickByKind(
+  catalog: PersonalizationOption[],
+  kind: PersonalizationKind,
+  product: ProductScope
+) {
+  const specificity = (o: PersonalizationOption) =>
+    (o.leagues.length > 0 ? 1 : 0) + (o.qualities.length > 0 ? 1 : 0);
+  return catalog
+    .filter((o) => o.kind === kind && isOptionApplicable(o, product))
+    .sort((a, b) => specificity(b) - specificity(a))[0];
+}
+
+function isEmpty(p: PersonalizationInput) {
+  return !p.name && p.number === undefined && p.patches.length === 0;
+}
+
+/**
+ * Precio de la personalización de cada unidad de una línea según el
+ * catálogo. El índice del array es la unidad; las unidades sin nada se
+ * omiten. Retorna también las opciones pedidas que no están disponibles.
+ */
+export function pricePersonalization(
+  units: PersonalizationInput[],
+  product: ProductScope,
+  catalog: PersonalizationOption[]
+): { priced: PricedPersonalization[]; issues: PersonalizationIssue[] } {
+  const priced: PricedPersonalization[] = [];
+  const issues: PersonalizationIssue[] = [];
+
+  units.forEach((unit, unitIndex) => {
+    if (isEmpty(unit)) return;
+    let price = 0;
+
+    if (unit.name) {
+      const option = pickByKind(catalog, "NAME", product);
+      if (option) price += option.price;
+      else issues.push({ unitIndex, code: "NAME", error: "OPTION_UNAVAILABLE" });
+    }
+    if (unit.number !== undefined) {
+      const option = pickByKind(catalog, "NUMBER", product);
+      if (option) price += option.price;
+      else
+        issues.push({ unitIndex, code: "NUMBER", error: "OPTION_UNAVAILABLE" });
+    }
+    for (const code of unit.patches) {
+      const option = catalog.find(
+        (o) =>
+          o.code === code &&
+          (o.kind === "PATCH" || o.kind === "SPONSOR") &&
+          isOptionApplicable(o, product)
+      );
+      if (option) price += option.price;
+      else issues.push({ unitIndex, code, error: "OPTION_UNAVAILABLE" });
+    }
+
+    priced.push({
+      unitIndex,
+      name: unit.name ?? null,
+      number: unit.number ?? null,
+      patches: unit.patches,
+      price,
+    });
+  });
+
+  return { priced, issues };
+}
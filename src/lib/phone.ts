@@ -0,0 +1,16 @@
+// Código de país por defecto (Paraguay)
+const COUNTRY_CODE = process.env.PHONE_COUNTRY_CODE || "595";
+
+/**
+ * Normaliza un teléfono a formato internacional sólo con dígitos.
+ *   "0981 123-456"     → "595981123456"
+ *   "+595 981 123456"  → "595981123456"
+ *   "981123456"        → "595981123456"
+ */
+export function normalizePhone(phone: string): string {
+  let digits = phone.replace(/\D/g, "");
+  if (digits.startsWith("00")) digits = digits.slice(2);
+  if (digits.startsWith(COUNTRY_CODE)) return digits;
+  if (digits.startsWith("0")) digits = digits.slice(1);
+  return COUNTRY_CODE + digits;
+}
@@ -0,0 +1,127 @@
+import {
+  KitType,
+  Prisma,
+  PrismaClient,
+  ProductQuality,
+} from "@prisma/client";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type OrderLineInput = {
+  productId: string;
+  variantId: string;
+  qty: number;
+};
+
+/** Línea de pedido con el precio y los datos de la variante ya resueltos */
+export type PricedLine = {
+  productId: string;
+  variantId: string;
+  qty: number;
+  title: string; // "Camiseta Olimpia 2025 (XL)"
+  variantName: string;
+  sku: string | null;
+  unitPrice: number; // en Gs
+  imageUrl: string;
+  // metadatos del producto (para personalización y promociones)
+  league: string | null;
+  quality: ProductQuality | null;
+  kit: KitType | null;
+};
+
+export type PricingIssue = {
+  productId: string;
+  variantId: string;
+  error: "PRODUCT_NOT_FOUND" | "VARIANT_NOT_FOUND";
+};
+
+/** Se lanza cuando alguna línea apunta a un producto o variante inválidos */
+export class PricingError extends Error {
+  readonly items: PricingIssue[];
+
+  constructor(items: PricingIssue[]) {
+    super("INVALID_ITEMS");
+    this.name = "PricingError";
+    this.items = items;
+  }
+}
+
+/** Precio efectivo: el override de la variante (XXL, niños) o el basePrice */
+export function effectivePrice(
+  variant: { price: number | null },
+  product: { basePrice: number }
+): number {
+  return variant.price ?? product.basePrice;
+}
+
+export function lineTitle(productTitle: string, variantName: string) {
+  return `${productTitle} (${variantName})`;
+}
+
+/**
+ * Resuelve cada línea contra su variante: confirma que pertenezca al
+ * producto indicado y toma el precio, nombre y SKU vigentes para
+ * guardarlos como snapshot en OrderItem.
+ */
+export async function priceOrderLines(
+  db: Db,
+  lines: OrderLineInput[]
+): Promise<PricedLine[]> {
+  const variants = await db.productVariant.findMany({
+    where: { id: { in: lines.map((l) => l.variantId) } },
+    select: {
+      id: true,
+      productId: true,
+      name: true,
+      sku: true,
+      price: true,
+      imageUrl: true,
+      product: {
+        select: {
+          id: true,
+          title: true,
+          basePrice: true,
+          imageUrl: true,
+          league: true,
+          quality: true,
+          kit: true,
+        },
+      },
+    },
+  });
+
+  const issues: PricingIssue[] = [];
+  const priced: PricedLine[] = [];
+
+  for (const line of lines) {
+    const variant = variants.find((v) => v.id === line.variantId);
+    if (!variant || variant.productId !== line.productId) {
+      const productExists = await db.product.count({
+        where: { id: line.productId },
+      });
+      issues.push({
+        productId: line.productId,
+        variantId: line.variantId,
+        error: productExists ? "VARIANT_NOT_FOUND" : "PRODUCT_NOT_FOUND",
+      });
+      continue;
+    }
+
+    priced.push({
+      productId: variant.product.id,
+      variantId: variant.id,
+      qty: line.qty,
+      title: lineTitle(variant.product.title, variant.name),
+      variantName: variant.name,
+      sku: variant.sku,
+      unitPrice: effectivePrice(variant, variant.product),
+      imageUrl: variant.imageUrl || variant.product.imageUrl,
+      league: variant.product.league,
+      quality: variant.product.quality,
+      kit: variant.product.kit,
+    });
+  }
+
+  if (issues.length > 0) throw new PricingError(issues);
+  return priced;
+}
@@ -0,0 +1,260 @@
+import { Prisma, Promotion } from "@prisma/client";
+import { z } from "zod";
+import type { PricedLine } from "@/lib/pricing";
+
+type Tx = Prisma.TransactionClient;
+
+/** Usos que cuentan para los límites: los de pedidos cancelados o vencidos no */
+export const COUNTED_REDEMPTION = {
+  order: { status: { not: "CANCELLED" } },
+} satisfies Prisma.PromotionRedemptionWhereInput;
+
+// ===== Schemas (admin) =====
+export const PromotionFields = z.object({
+  name: z.string().trim().min(2).max(80),
+  code: z
+    .string()
+    .trim()
+    .min(3)
+    .max(40)
+    .transform((v) => v.toUpperCase())
+    .pipe(z.string().regex(/^[A-Z0-9_-]+$/, "Sólo A-Z, 0-9, _ y -"))
+    .nullable()
+    .optional(),
+  type: z.enum(["PERCENTAGE", "FIXED_AMOUNT", "BUY_X_GET_Y"]),
+  value: z.coerce.number().int().min(0).default(0),
+  buyQuantity: z.coerce.number().int().min(1).nullable().optional(),
+  getQuantity: z.coerce.number().int().min(1).nullable().optional(),
+  leagues: z.array(z.string().trim().min(1).max(50)).default([]),
+  kits: z.array(z.enum(["HOME", "AWAY", "THIRD", "RETRO"])).default([]),
+  qualities: z.array(z.enum(["FAN", "PLAYER_VERSION"])).default([]),
+  productIds: z.array(z.string().min(1)).default([]),
+  startsAt: z.coerce.date().nullable().optional(),
+  endsAt: z.coerce.date().nullable().optional(),
+  maxRedemptions: z.coerce.number().int().min(1).nullable().optional(),
+  maxPerPhone: z.coerce.number().int().min(1).nullable().optional(),
+  active: z.boolean().default(true),
+});
+
+/** Reglas que dependen de varios campos; null si la promoción es válida */
+export function promotionRuleError(
+  p: Pick<
+    Promotion,
+    "type" | "value" | "buyQuantity" | "getQuantity" | "startsAt" | "endsAt"
+  >
+): string | null {
+  if (p.type === "PERCENTAGE" && (p.value < 1 || p.value > 100))
+    return "value debe ser un porcentaje entre 1 y 100";
+  if (p.type === "FIXED_AMOUNT" && p.value < 1)
+    return "value debe ser un monto mayor a 0";
+  if (p.type === "BUY_X_GET_Y" && (!p.buyQuantity || !p.getQuantity))
+    return "buyQuantity y getQuantity son requeridos";
+  if (p.startsAt && p.endsAt && p.startsAt > p.endsAt)
+    return "startsAt debe ser anterior a endsAt";
+  return null;
+}
+
+export type CouponRejection =
+  | "NOT_FOUND"
+  | "INACTIVE"
+  | "NOT_STARTED"
+  | "EXPIRED"
+  | "EXHAUSTED"
+  | "PHONE_LIMIT"
+  | "NOT_APPLICABLE";
+
+/** Se lanza cuando el cupón ingresado no se puede usar en este pedido */
+export class CouponError extends Error {
+  readonly code: string;
+  readonly reason: CouponRejection;
+
+  constructor(code: string, reason: CouponRejection) {
+    super("INVALID_COUPON");
+    this.name = "CouponError";
+    this.code = code;
+    this.reason = reason;
+  }
+}
+
+export type AppliedDiscount = {
+  promotionId: string;
+  code: string | null;
+  description: string;
+  amount: number; // Gs
+};
+
+type ScopedLine = Pick<
+  PricedLine,
+  "productId" | "qty" | "unitPrice" | "league" | "kit" | "quality"
+>;
+
+/** Listas vacías en la promoción = aplica a todo el catálogo */
+export function isLineEligible(
+  promo: Pick<Promotion, "leagues" | "kits" | "qualities" | "productIds">,
+  line: ScopedLine
+) {
+  if (promo.productIds.length && !promo.productIds.includes(line.productId))
+    return false;
+  if (promo.leagues.length && !(line.league && promo.leagues.includes(line.league)))
+    return false;
+  if (promo.kits.length && !(line.kit && promo.kits.includes(line.kit)))
+    return false;
+  if (
+    promo.qualities.length &&
+    !(line.quality && promo.qualities.includes(line.quality))
+  )
+    return false;
+  return true;
+}
+
+/**
+ * Descuento (Gs) que genera una promoción sobre las líneas elegibles.
+ * Sólo se descuenta sobre el precio de las camisetas, no sobre extras.
+ */
+export function computePromotionDiscount(
+  promo: Pick<
+    Promotion,
+    | "type"
+    | "value"
+    | "buyQuantity"
+    | "getQuantity"
+    | "leagues"
+    | "kits"
+    | "qualities"
+    | "productIds"
+  >,
+  lines: ScopedLine[]
+): number {
+  const eligible = lines.filter((l) => isLineEligible(promo, l));
+  const eligibleSubtotal = eligible.reduce(
+    (sum, l) => sum + l.unitPrice * l.qty,
+    0
+  );
+  if (eligibleSubtotal === 0) return 0;
+
+  switch (promo.type) {
+    case "PERCENTAGE":
+      return Math.floor((eligibleSubtotal * promo.value) / 100);
+    case "FIXED_AMOUNT":
+      return Math.min(promo.value, eligibleSubtotal);
+    case "BUY_X_GET_Y": {
+      // "2x1": por cada X+Y unidades, las Y más baratas van de regalo
+      const buy = promo.buyQuantity ?? 0;
+      const get = promo.getQuantity ?? 0;
+      if (buy < 1 || get < 1) return 0;
+      const units = eligible
+        .flatMap((l) => Array<number>(l.qty).fill(l.unitPrice))
+        .sort((a, b) => a - b);
+      const free = Math.floor(units.length / (buy + get)) * get;
+      return units.slice(0, free).reduce((sum, p) => sum + p, 0);
+    }
+  }
+}
+
+export function describePromotion(promo: Pick<Promotion, "name" | "code">) {
+  return promo.code ? `${promo.name} (${promo.code})` : promo.name;
+}
+
+function windowRejection(
+  promo: Pick<Promotion, "active" | "startsAt" | "endsAt">,
+  now: Date
+): CouponRejection | null {
+  if (!promo.active) return "INACTIVE";
+  if (promo.startsAt && promo.startsAt > now) return "NOT_STARTED";
+  if (promo.endsAt && promo.endsAt < now) return "EXPIRED";
+  return null;
+}
+
+async function limitRejection(
+  tx: Tx,
+  promo: Pick<Promotion, "id" | "maxRedemptions" | "maxPerPhone">,
+  phone: string
+): Promise<CouponRejection | null> {
+  if (promo.maxRedemptions === null && promo.maxPerPhone === null) return null;
+
+  // Bloqueamos la fila para que dos pedidos simultáneos no pasen el límite
+  await tx.$executeRaw`SELECT 1 FROM "Promotion" WHERE "id" = ${promo.id} FOR UPDATE`;
+
+  if (promo.maxRedemptions !== null) {
+    const used = await tx.promotionRedemption.count({
+      where: { promotionId: promo.id, ...COUNTED_REDEMPTION },
+    });
+    if (used >= promo.maxRedemptions) return "EXHAUSTED";
+  }
+  if (promo.maxPerPhone !== null) {
+    const usedByPhone = await tx.promotionRedemption.count({
+      where: { promotionId: promo.id, phone, ...COUNTED_REDEMPTION },
+    });
+    if (usedByPhone >= promo.maxPerPhone) return "PHONE_LIMIT";
+  }
+  return null;
+}
+
+/**
+ * Resuelve las promociones automáticas vigentes más el cupón ingresado
+ * (si hay) y devuelve el desglose de descuentos. Un cupón inválido lanza
+ * CouponError; una promoción automática que no aplica simplemente se omite.
+ * El total nunca supera el subtotal de las líneas.
+ */
+export async function applyPromotions(
+  tx: Tx,
+  params: {
+    lines: ScopedLine[];
+    phone: string; // normalizado
+    couponCode?: string;
+    now?: Date;
+  }
+): Promise<AppliedDiscount[]> {
+  const now = params.now ?? new Date();
+  const code = params.couponCode?.trim().toUpperCase();
+
+  const candidates = await tx.promotion.findMany({
+    where: {
+      OR: [
+        {
+          code: null,
+          active: true,
+          AND: [
+            { OR: [{ startsAt: null }, { startsAt: { lte: now } }] },
+            { OR: [{ endsAt: null }, { endsAt: { gte: now } }] },
+          ],
+        },
+        ...(code ? [{ code }] : []),
+      ],
+    },
+    orderBy: { createdAt: "asc" },
+  });
+
+  if (code && !candidates.some((p) => p.code === code)) {
+    throw new CouponError(code, "NOT_FOUND");
+  }
+
+  const subtotal = params.lines.reduce((s, l) => s + l.unitPrice * l.qty, 0);
+  const applied: AppliedDiscount[] = [];
+  let remaining = subtotal;
+
+  for (const promo of candidates) {
+    const isCoupon = promo.code !== null;
+    const rejection =
+      windowRejection(promo, now) ??
+      (await limitRejection(tx, promo, params.phone));
+    const amount = rejection
+      ? 0
+      : Math.min(computePromotionDiscount(promo, params.lines), remaining);
+
+    if (amount <= 0) {
+      if (isCoupon) throw new CouponError(promo.code!, rejection ?? "NOT_APPLICABLE");
+      continue;
+    }
+
+    remaining -= amount;
+    applied.push({
+      promotionId: promo.id,
+      code: promo.code,
+      description: describePromotion(promo),
+      amount,
+    });
+  }
+
+  return applied;
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { allocateLandedCost } from "@/lib/purchasing";
+
+describe("allocateLandedCost", () => {
+  it("reparte según el valor de factura de cada línea", () => {
+    // Valores 300.000 y 100.000: el costo se reparte 3 a 1
+    const items = [
+      { quantity: 3, supplierPrice: 100000 },
+      { quantity: 1, supplierPrice: 100000 },
+    ];
+    expect(allocateLandedCost(items, 80000)).toEqual([20000, 20000]);
+    expect(
+      allocateLandedCost(
+        [
+          { quantity: 2, supplierPrice: 150000 },
+          { quantity: 4, supplierPrice: 25000 },
+        ],
+        40000
+      )
+    ).toEqual([15000, 2500]);
+  });
+
+  it("reparte por unidades si no hay precios cargados", () => {
+    const items = [
+      { quantity: 1, supplierPrice: 0 },
+      { quantity: 3, supplierPrice: 0 },
+    ];
+    expect(allocateLandedCost(items, 40000)).toEqual([10000, 10000]);
+  });
+
+  it("las líneas sin precio no absorben costo si otras lo tienen", () => {
+    const items = [
+      { quantity: 2, supplierPrice: 50000 },
+      { quantity: 5, supplierPrice: 0 },
+    ];
+    expect(allocateLandedCost(items, 30000)).toEqual([15000, 0]);
+  });
+
+  it("redondea el costo unitario a guaraníes enteros", () => {
+    const items = [{ quantity: 3, supplierPrice: 10000 }];
+    expect(allocateLandedCost(items, 10000)).toEqual([3333]);
+  });
+
+  it("sin unidades no reparte nada", () => {
+    expect(allocateLandedCost([], 50000)).toEqual([]);
+    expect(allocateLandedCost([{ quantity: 0, supplierPrice: 0 }], 50000)).toEqual([0]);
+  });
+});
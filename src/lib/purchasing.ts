@@ -0,0 +1,231 @@
+import { Prisma, PrismaClient, PurchaseCostKind } from "@prisma/client";
+import { z } from "zod";
+import { fillBackorders } from "@/lib/backorders";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+type Tx = Prisma.TransactionClient;
+
+// ===== Schemas (admin) =====
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().optional();
+
+export const SupplierFields = z.object({
+  name: z.string().trim().min(2).max(80),
+  contact: optionalText(80),
+  phone: optionalText(40),
+  email: z.string().trim().email().nullable().optional(),
+  website: z.string().trim().url().nullable().optional(),
+  notes: optionalText(500),
+  active: z.boolean().default(true),
+});
+
+export const PurchaseItemSchema = z.object({
+  variantId: z.string().min(1),
+  quantity: z.coerce.number().int().min(1).max(10000),
+  // precio unitario de la factura (en su moneda); sólo pesa en el prorrateo
+  supplierPrice: z.coerce.number().min(0).default(0),
+});
+
+// Una línea por variante: las cantidades se suman antes de enviar
+export const PurchaseItemsSchema = z
+  .array(PurchaseItemSchema)
+  .max(500)
+  .refine((items) => new Set(items.map((i) => i.variantId)).size === items.length, {
+    message: "Variantes repetidas",
+  });
+
+export const PurchaseCostSchema = z
+  .object({
+    kind: z.enum(["SUPPLIER", "SHIPPING", "CUSTOMS", "OTHER"]),
+    description: optionalText(200),
+    currency: z.enum(["PYG", "USD"]).default("PYG"),
+    amount: z.coerce.number().positive(),
+    exchangeRate: z.coerce.number().positive().optional(), // Gs por USD
+  })
+  .refine((c) => c.currency === "PYG" || c.exchangeRate, {
+    message: "exchangeRate es requerido para costos en USD",
+    path: ["exchangeRate"],
+  });
+
+// Categoría con la que el pago queda en el libro de caja
+export const PURCHASE_COST_CATEGORY: Record<PurchaseCostKind, string> = {
+  SUPPLIER: "proveedor",
+  SHIPPING: "envío",
+  CUSTOMS: "aduana",
+  OTHER: "compras",
+};
+
+/** Convierte el costo a Gs (la cotización de PYG es siempre 1) */
+export function costInGs(cost: z.infer<typeof PurchaseCostSchema>) {
+  const exchangeRate = cost.currency === "PYG" ? 1 : cost.exchangeRate!;
+  return { exchangeRate, amountGs: Math.round(cost.amount * exchangeRate) };
+}
+
+export type PurchaseRejection =
+  | "BATCH_NOT_FOUND"
+  | "BATCH_LOCKED"
+  | "EMPTY_BATCH"
+  | "INVALID_ITEMS"
+  | "COST_NOT_FOUND"
+  | "ALREADY_PAID";
+
+/** Se lanza cuando la operación sobre el lote no se puede aplicar */
+export class PurchaseError extends Error {
+  readonly reason: PurchaseRejection;
+  readonly items?: string[]; // variantId inexistentes
+
+  constructor(reason: PurchaseRejection, items?: string[]) {
+    super(reason);
+    this.name = "PurchaseError";
+    this.reason = reason;
+    this.items = items;
+  }
+}
+
+/** Valida las variantes y agrega el productId de cada una */
+export async function resolvePurchaseItems(
+  db: Db,
+  items: z.infer<typeof PurchaseItemsSchema>
+) {
+  const variants = await db.productVariant.findMany({
+    where: { id: { in: items.map((i) => i.variantId) } },
+    select: { id: true, productId: true },
+  });
+  const missing = items
+    .filter((i) => !variants.some((v) => v.id === i.variantId))
+    .map((i) => i.variantId);
+  if (missing.length > 0) throw new PurchaseError("INVALID_ITEMS", missing);
+
+  return items.map((i) => ({
+    ...i,
+    productId: variants.find((v) => v.id === i.variantId)!.productId,
+  }));
+}
+
+/**
+ * Costo unitario puesto en el local (Gs) de cada ítem: el total de costos
+ * del lote se reparte según el valor de factura de cada línea
+ * (supplierPrice × quantity), o por unidades si no se cargaron precios.
+ */
+export function allocateLandedCost(
+  items: Array<{ quantity: number; supplierPrice: number }>,
+  totalGs: number
+): number[] {
+  const byValue = items.some((i) => i.supplierPrice > 0);
+  const weights = items.map((i) =>
+    byValue ? i.supplierPrice * i.quantity : i.quantity
+  );
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (totalWeight === 0) return items.map(() => 0);
+
+  return items.map((item, i) =>
+    Math.round((totalGs * weights[i]) / totalWeight / item.quantity)
+  );
+}
+
+/**
+ * Registra el pago de un costo del lote como EXPENSE en el libro de caja y
+ * lo enlaza al costo. Un costo se paga una sola vez.
+ */
+export async function payPurchaseCost(
+  tx: Tx,
+  params: { batchId: string; costId: string; paidById: string; paidAt?: Date }
+) {
+  // Bloqueamos el costo: dos pagos simultáneos no deben duplicar el egreso
+  await tx.$executeRaw`SELECT 1 FROM "PurchaseBatchCost" WHERE "id" = ${params.costId} FOR UPDATE`;
+  const cost = await tx.purchaseBatchCost.findFirst({
+    where: { id: params.costId, batchId: params.batchId },
+    include: {
+      batch: { select: { reference: true, supplier: { select: { name: true } } } },
+    },
+  });
+  if (!cost) throw new PurchaseError("COST_NOT_FOUND");
+  if (cost.transactionId) throw new PurchaseError("ALREADY_PAID");
+
+  const label = cost.description || PURCHASE_COST_CATEGORY[cost.kind];
+  const batchLabel = cost.batch.reference
+    ? `${cost.batch.supplier.name} #${cost.batch.reference}`
+    : cost.batch.supplier.name;
+  const transaction = await tx.transaction.create({
+    data: {
+      userId: params.paidById,
+      type: "EXPENSE",
+      amount: cost.amountGs,
+      description:
+        cost.currency === "PYG"
+          ? `${label} — ${batchLabel}`
+          : `${label} — ${batchLabel} (${cost.currency} ${cost.amount} × ${cost.exchangeRate})`,
+      category: PURCHASE_COST_CATEGORY[cost.kind],
+      occurredAt: params.paidAt ?? new Date(),
+    },
+  });
+
+  return tx.purchaseBatchCost.update({
+    where: { id: cost.id },
+    data: { transactionId: transaction.id },
+    include: { transaction: true },
+  });
+}
+
+/**
+ * Ingresa el lote: fija el costo unitario de cada ítem, cubre primero los
+ * encargos abiertos de cada variante y suma el resto al stock. El
+ * purchasePrice de cada producto pasa a ser su costo promedio en este lote.
+ * El lote queda RECEIVED y ya no se edita.
+ */
+export async function receivePurchaseBatch(tx: Tx, batchId: string) {
+  // Bloqueamos el lote: recibirlo dos veces duplicaría el stock
+  await tx.$executeRaw`SELECT 1 FROM "PurchaseBatch" WHERE "id" = ${batchId} FOR UPDATE`;
+  const batch = await tx.purchaseBatch.findUnique({
+    where: { id: batchId },
+    include: { items: true, costs: { select: { amountGs: true } } },
+  });
+  if (!batch) throw new PurchaseError("BATCH_NOT_FOUND");
+  if (batch.status === "RECEIVED" || batch.status === "CANCELLED") {
+    throw new PurchaseError("BATCH_LOCKED");
+  }
+  if (batch.items.length === 0) throw new PurchaseError("EMPTY_BATCH");
+
+  const totalGs = batch.costs.reduce((sum, c) => sum + c.amountGs, 0);
+  const unitCosts = allocateLandedCost(batch.items, totalGs);
+
+  let backordersFilled = 0;
+  let stockAdded = 0;
+  const productCosts = new Map<string, { cost: number; units: number }>();
+  for (const [i, item] of batch.items.entries()) {
+    await tx.purchaseBatchItem.update({
+      where: { id: item.id },
+      data: { landedUnitCost: unitCosts[i] },
+    });
+
+    const filled = await fillBackorders(tx, item.variantId, item.quantity);
+    if (item.quantity > filled) {
+      await tx.productVariant.update({
+        where: { id: item.variantId },
+        data: { stock: { increment: item.quantity - filled } },
+      });
+    }
+    backordersFilled += filled;
+    stockAdded += item.quantity - filled;
+
+    const prev = productCosts.get(item.productId) ?? { cost: 0, units: 0 };
+    productCosts.set(item.productId, {
+      cost: prev.cost + unitCosts[i] * item.quantity,
+      units: prev.units + item.quantity,
+    });
+  }
+
+  for (const [productId, { cost, units }] of productCosts) {
+    await tx.product.update({
+      where: { id: productId },
+      data: { purchasePrice: Math.round(cost / units) },
+    });
+  }
+
+  const received = await tx.purchaseBatch.update({
+    where: { id: batchId },
+    data: { status: "RECEIVED", receivedAt: new Date() },
+    include: { items: true, costs: true },
+  });
+  return { batch: received, totalGs, backordersFilled, stockAdded };
+}
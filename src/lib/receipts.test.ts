@@ -0,0 +1,209 @@
+import { describe, expect, it } from "vitest";
+import { OrderDocument, orderReceipt, renderOrderPdf } from "@/lib/receipts";
+
+const createdAt = new Date("2026-03-14T15:30:00Z");
+
+// Pedido fijo: dos líneas (una personalizada y con encargo), cupón, envío
+// y un pago parcial
+const fixture: OrderDocument = {
+  store: {
+    id: "default",
+    name: "Hincha Store",
+    legalName: "Hincha S.A.",
+    ruc: "80012345-6",
+    address: "Av. Mcal. López 1234, Asunción",
+    phone: "+595981000000",
+    email: "ventas@hincha.com.py",
+    website: "hincha.com.py",
+    receiptFooter: "¡Gracias por tu compra!",
+    backorderLeadDays: 15,
+    backorderDepositPercent: 50,
+    sellerCommissionPercent: 0,
+    updatedAt: createdAt,
+  },
+  order: {
+    id: "cm00000000000000ord12345",
+    trackingCode: "HX7K2M9P",
+    userId: null,
+    status: "CONFIRMED",
+    name: "Juan Pérez",
+    phone: "+595981123456",
+    address: "Calle Palma 100, Asunción",
+    notes: "Tocar timbre",
+    subtotal: 550000,
+    lat: null,
+    lng: null,
+    extrasTotal: 50000,
+    discountTotal: 60000,
+    deliveryMethod: "DELIVERY",
+    deliveryFee: 25000,
+    deliveryZoneId: "zone-centro",
+    totalPrice: 565000,
+    refundedTotal: 0,
+    depositRequired: 175000,
+    cancelledAt: null,
+    cancelReason: null,
+    stockReservedAt: createdAt,
+    stockReleasedAt: null,
+    reservationExpiresAt: null,
+    createdAt,
+    deliveryZone: { name: "Centro" },
+    discounts: [{ description: "Cupón HINCHA10", amount: 60000 }],
+    payments: [
+      {
+        id: "pay-1",
+        orderId: "cm00000000000000ord12345",
+        amount: 300000,
+        method: "BANK_TRANSFER",
+        reference: "OP-998877",
+        receiptUrl: null,
+        receiptPublicId: null,
+        transactionId: null,
+        recordedById: null,
+        paidAt: new Date("2026-03-14T16:00:00Z"),
+        voidedAt: null,
+        voidReason: null,
+        refundedAmount: 0,
+        createdAt: new Date("2026-03-14T16:00:00Z"),
+      },
+    ],
+    items: [
+      {
+        id: "item-1",
+        orderId: "cm00000000000000ord12345",
+        fulfilmentId: null,
+        productId: "prod-1",
+        variantId: "var-1",
+        variantName: "M",
+        sku: "CER-24-HOME-M",
+        title: "Cerro Porteño 2024 Titular (M)",
+        price: 250000,
+        quantity: 1,
+        refundedQuantity: 0,
+        backorderedQuantity: 1,
+        backorderLeadDays: 20,
+        imageUrl: "https://example.com/cerro.jpg",
+        personalizations: [
+          {
+            id: "pers-1",
+            orderItemId: "item-1",
+            unitIndex: 0,
+            name: "ROJAS",
+            number: 10,
+            patches: ["LIGA"],
+            price: 50000,
+          },
+        ],
+      },
+      {
+        id: "item-2",
+        orderId: "cm00000000000000ord12345",
+        fulfilmentId: null,
+        productId: "prod-2",
+        variantId: "var-2",
+        variantName: "L",
+        sku: null,
+        title: "Olimpia 2023 Suplente (L)",
+        price: 150000,
+        quantity: 2,
+        refundedQuantity: 0,
+        backorderedQuantity: 0,
+        backorderLeadDays: null,
+        imageUrl: "https://example.com/olimpia.jpg",
+        personalizations: [],
+      },
+    ],
+  },
+};
+
+describe("orderReceipt", () => {
+  it("comprobante: cliente, ítems y totales", () => {
+    const receipt = orderReceipt(fixture, "receipt");
+    expect(receipt.customer).toEqual([
+      "Juan Pérez",
+      "Tel.: +595981123456",
+      "Entrega: Calle Palma 100, Asunción",
+    ]);
+    expect(receipt.items).toEqual([
+      {
+        quantity: 1,
+        description: "Cerro Porteño 2024 Titular (M)",
+        unitPrice: 250000,
+        amount: 250000,
+        notes: ["Encargo: 1 (llega en ~20 días)"],
+        units: [{ label: "Camiseta 1: ROJAS · N° 10 · Parches: LIGA", price: 50000 }],
+      },
+      {
+        quantity: 2,
+        description: "Olimpia 2023 Suplente (L)",
+        unitPrice: 150000,
+        amount: 300000,
+        notes: [],
+        units: [],
+      },
+    ]);
+    expect(receipt.totals).toEqual([
+      { label: "Subtotal", amount: 550000 },
+      { label: "Personalización", amount: 50000 },
+      { label: "Cupón HINCHA10", amount: -60000 },
+      { label: "Envío (Centro)", amount: 25000 },
+      { label: "Total", amount: 565000, bold: true },
+    ]);
+  });
+
+  it("pagos: total pagado y saldo", () => {
+    const receipt = orderReceipt(fixture, "receipt");
+    expect(receipt.payments).toEqual([
+      {
+        paidAt: new Date("2026-03-14T16:00:00Z"),
+        detail: "Transferencia · OP-998877",
+        amount: 300000,
+      },
+    ]);
+    expect(receipt.paidTotal).toBe(300000);
+    expect(receipt.balance).toBe(265000);
+  });
+
+  it("factura: agrega SKU y notas", () => {
+    const receipt = orderReceipt(fixture, "invoice");
+    expect(receipt.customer).toContain("Notas: Tocar timbre");
+    expect(receipt.items.map((i) => i.description)).toEqual([
+      "Cerro Porteño 2024 Titular (M) — CER-24-HOME-M",
+      "Olimpia 2023 Suplente (L)",
+    ]);
+  });
+
+  it("reembolsos: se restan después del total", () => {
+    const receipt = orderReceipt(
+      {
+        ...fixture,
+        order: {
+          ...fixture.order,
+          refundedTotal: 150000,
+          items: fixture.order.items.map((i) =>
+            i.id === "item-2" ? { ...i, refundedQuantity: 1 } : i
+          ),
+        },
+      },
+      "receipt"
+    );
+    expect(receipt.items[1].notes).toEqual(["Devueltas: 1"]);
+    expect(receipt.totals.at(-1)).toEqual({ label: "Reembolsado", amount: -150000 });
+  });
+
+  it("invitado: oculta los datos del cliente", () => {
+    const receipt = orderReceipt(fixture, "invoice", { redactCustomer: true });
+    expect(receipt.customer).toEqual(["Envío a domicilio"]);
+  });
+});
+
+describe("renderOrderPdf", () => {
+  it("genera un PDF determinista para el mismo pedido", async () => {
+    const [a, b] = await Promise.all([
+      renderOrderPdf(fixture, "receipt"),
+      renderOrderPdf(fixture, "receipt"),
+    ]);
+    expect(a.subarray(0, 5).toString("latin1")).toBe("%PDF-");
+    expect(a.equals(b)).toBe(true);
+  });
+});
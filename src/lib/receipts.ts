@@ -0,0 +1,366 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import PDFDocument from "pdfkit";
+import { formatDateTime, formatGs } from "@/lib/format";
+import {
+  ACTIVE_PAYMENT,
+  PAYMENT_METHOD_LABEL,
+  summarizePayments,
+} from "@/lib/payments";
+import { getStoreSettings } from "@/lib/settings";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type OrderDocumentKind = "receipt" | "invoice";
+
+/** Todo lo que se imprime en el comprobante / factura de un pedido */
+export async function loadOrderDocument(db: Db, orderId: string) {
+  const [order, store] = await Promise.all([
+    db.order.findUnique({
+      where: { id: orderId },
+      include: {
+        items: {
+          include: { personalizations: { orderBy: { unitIndex: "asc" } } },
+        },
+        discounts: { select: { description: true, amount: true } },
+        payments: { where: ACTIVE_PAYMENT, orderBy: { paidAt: "asc" } },
+        deliveryZone: { select: { name: true } },
+      },
+    }),
+    getStoreSettings(db),
+  ]);
+  return order ? { order, store } : null;
+}
+
+export type OrderDocument = NonNullable<
+  Awaited<ReturnType<typeof loadOrderDocument>>
+>;
+
+export function orderNumber(orderId: string) {
+  return orderId.slice(-8).toUpperCase();
+}
+
+// ===== Layout (A4, puntos) =====
+const MARGIN = 40;
+const PAGE_WIDTH = 595.28;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const COL = {
+  qty: { x: MARGIN, width: 30 },
+  desc: { x: MARGIN + 36, width: 290 },
+  unit: { x: MARGIN + 330, width: 90 },
+  total: { x: MARGIN + 425, width: CONTENT_WIDTH - 425 },
+};
+const MUTED = "#555555";
+
+const TITLES: Record<OrderDocumentKind, string> = {
+  receipt: "COMPROBANTE DE PEDIDO",
+  invoice: "FACTURA",
+};
+
+function capitalize(value: string) {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+function describeUnit(p: {
+  unitIndex: number;
+  name: string | null;
+  number: number | null;
+  patches: string[];
+}) {
+  const parts = [
+    p.name,
+    p.number !== null ? `N° ${p.number}` : null,
+    p.patches.length ? `Parches: ${p.patches.join(", ")}` : null,
+  ].filter(Boolean);
+  return `Camiseta ${p.unitIndex + 1}: ${parts.join(" · ")}`;
+}
+
+export type ReceiptAmountRow = { label: string; amount: number; bold?: boolean };
+
+/**
+ * Contenido del comprobante / factura, sin layout: líneas del cliente,
+ * ítems, filas de totales (descuentos y reembolsos en negativo) y pagos.
+ * Con `redactCustomer` no incluye nombre, teléfono ni dirección (acceso de
+ * invitado con el código de seguimiento).
+ */
+export function orderReceipt(
+  { order }: OrderDocument,
+  kind: OrderDocumentKind,
+  opts: { redactCustomer?: boolean } = {}
+) {
+  const customer = (
+    opts.redactCustomer
+      ? [
+          order.deliveryMethod === "PICKUP"
+            ? "Retiro en el local"
+            : "Envío a domicilio",
+        ]
+      : [
+          order.name,
+          `Tel.: ${order.phone}`,
+          order.deliveryMethod === "PICKUP"
+            ? "Retiro en el local"
+            : `Entrega: ${order.address}`,
+          kind === "invoice" && order.notes ? `Notas: ${order.notes}` : null,
+        ]
+  ).filter((l): l is string => !!l);
+
+  const items = order.items.map((item) => {
+    const notes: string[] = [];
+    if (item.backorderedQuantity > 0) {
+      const lead = item.backorderLeadDays
+        ? ` (llega en ~${item.backorderLeadDays} días)`
+        : "";
+      notes.push(`Encargo: ${item.backorderedQuantity}${lead}`);
+    }
+    if (item.refundedQuantity > 0) {
+      notes.push(`Devueltas: ${item.refundedQuantity}`);
+    }
+    return {
+      quantity: item.quantity,
+      description:
+        kind === "invoice" && item.sku ? `${item.title} — ${item.sku}` : item.title,
+      unitPrice: item.price,
+      amount: item.price * item.quantity,
+      notes,
+      units: item.personalizations.map((p) => ({
+        label: describeUnit(p),
+        price: p.price,
+      })),
+    };
+  });
+
+  const totals: ReceiptAmountRow[] = [{ label: "Subtotal", amount: order.subtotal }];
+  if (order.extrasTotal > 0) {
+    totals.push({ label: "Personalización", amount: order.extrasTotal });
+  }
+  for (const d of order.discounts) {
+    totals.push({ label: d.description, amount: -d.amount });
+  }
+  if (order.deliveryMethod === "DELIVERY") {
+    totals.push({
+      label: order.deliveryZone ? `Envío (${order.deliveryZone.name})` : "Envío",
+      amount: order.deliveryFee,
+    });
+  }
+  totals.push({ label: "Total", amount: order.totalPrice, bold: true });
+  if (order.refundedTotal > 0) {
+    totals.push({ label: "Reembolsado", amount: -order.refundedTotal });
+  }
+
+  const payments = order.payments.map((p) => ({
+    paidAt: p.paidAt,
+    detail: [capitalize(PAYMENT_METHOD_LABEL[p.method]), p.reference]
+      .filter(Boolean)
+      .join(" · "),
+    amount: p.amount,
+  }));
+  const { paidTotal, balance } = summarizePayments(
+    order.totalPrice,
+    order.payments
+  );
+
+  return { customer, items, totals, payments, paidTotal, balance };
+}
+
+/**
+ * Genera el PDF en el servidor (pdfkit, fuentes estándar) con el contenido
+ * de orderReceipt. La fecha de creación del documento es la del pedido,
+ * así el mismo pedido produce siempre el mismo archivo.
+ */
+export function renderOrderPdf(
+  document: OrderDocument,
+  kind: OrderDocumentKind,
+  opts: { redactCustomer?: boolean } = {}
+): Promise<Buffer> {
+  const { order, store } = document;
+  const receipt = orderReceipt(document, kind, opts);
+  const pdf = new PDFDocument({
+    size: "A4",
+    margin: MARGIN,
+    info: {
+      Title: `${TITLES[kind]} #${orderNumber(order.id)}`,
+      Author: store.name,
+      CreationDate: order.createdAt,
+    },
+  });
+
+  const chunks: Buffer[] = [];
+  const done = new Promise<Buffer>((resolve, reject) => {
+    pdf.on("data", (chunk: Buffer) => chunks.push(chunk));
+    pdf.on("end", () => resolve(Buffer.concat(chunks)));
+    pdf.on("error", reject);
+  });
+
+  let y = MARGIN;
+  const bottom = () => pdf.page.height - MARGIN - 40;
+  const ensureSpace = (height: number) => {
+    if (y + height <= bottom()) return;
+    pdf.addPage();
+    y = MARGIN;
+  };
+  const rule = () => {
+    pdf
+      .moveTo(MARGIN, y)
+      .lineTo(MARGIN + CONTENT_WIDTH, y)
+      .lineWidth(0.5)
+      .strokeColor("#999999")
+      .stroke();
+    y += 8;
+  };
+  // Fila "etiqueta ........ monto" alineada con la columna de totales
+  const amountRow = ({ label, amount, bold }: ReceiptAmountRow) => {
+    ensureSpace(16);
+    pdf.font(bold ? "Helvetica-Bold" : "Helvetica").fontSize(10).fillColor("black");
+    pdf.text(label, COL.desc.x, y, {
+      width: COL.unit.x + COL.unit.width - COL.desc.x,
+      align: "right",
+    });
+    const text = amount < 0 ? `- ${formatGs(-amount)}` : formatGs(amount);
+    pdf.text(text, COL.total.x, y, { width: COL.total.width, align: "right" });
+    y += 16;
+  };
+
+  // ----- Encabezado: local a la izquierda, documento a la derecha -----
+  pdf.font("Helvetica-Bold").fontSize(16).fillColor("black");
+  pdf.text(store.name, MARGIN, y, { width: 300 });
+  let left = y + 22;
+  pdf.font("Helvetica").fontSize(9).fillColor(MUTED);
+  const storeLines = [
+    store.legalName,
+    store.ruc ? `RUC: ${store.ruc}` : null,
+    store.address,
+    store.phone ? `Tel.: ${store.phone}` : null,
+    store.email,
+    store.website,
+  ].filter((l): l is string => !!l);
+  for (const line of storeLines) {
+    pdf.text(line, MARGIN, left, { width: 300 });
+    left += 12;
+  }
+
+  const rightX = MARGIN + 300;
+  const rightWidth = CONTENT_WIDTH - 300;
+  pdf.font("Helvetica-Bold").fontSize(12).fillColor("black");
+  pdf.text(TITLES[kind], rightX, y, { width: rightWidth, align: "right" });
+  pdf.font("Helvetica").fontSize(9).fillColor(MUTED);
+  pdf.text(`Pedido #${orderNumber(order.id)}`, rightX, y + 18, {
+    width: rightWidth,
+    align: "right",
+  });
+  pdf.text(`Seguimiento: ${order.trackingCode}`, rightX, y + 30, {
+    width: rightWidth,
+    align: "right",
+  });
+  pdf.text(formatDateTime(order.createdAt), rightX, y + 42, {
+    width: rightWidth,
+    align: "right",
+  });
+  y = Math.max(left, y + 56) + 8;
+  rule();
+
+  // ----- Cliente -----
+  pdf.font("Helvetica-Bold").fontSize(10).fillColor("black");
+  pdf.text("Cliente", MARGIN, y);
+  y += 14;
+  pdf.font("Helvetica").fontSize(9);
+  for (const line of receipt.customer) {
+    const h = pdf.heightOfString(line, { width: CONTENT_WIDTH });
+    pdf.text(line, MARGIN, y, { width: CONTENT_WIDTH });
+    y += h + 2;
+  }
+  y += 6;
+  rule();
+
+  // ----- Ítems -----
+  pdf.font("Helvetica-Bold").fontSize(9).fillColor("black");
+  pdf.text("Cant.", COL.qty.x, y, { width: COL.qty.width });
+  pdf.text("Descripción", COL.desc.x, y, { width: COL.desc.width });
+  pdf.text("Precio unit.", COL.unit.x, y, { width: COL.unit.width, align: "right" });
+  pdf.text("Importe", COL.total.x, y, { width: COL.total.width, align: "right" });
+  y += 16;
+
+  for (const item of receipt.items) {
+    pdf.font("Helvetica").fontSize(9);
+    const h = pdf.heightOfString(item.description, { width: COL.desc.width });
+    ensureSpace(h + 4);
+
+    pdf.fillColor("black");
+    pdf.text(String(item.quantity), COL.qty.x, y, { width: COL.qty.width });
+    pdf.text(item.description, COL.desc.x, y, { width: COL.desc.width });
+    pdf.text(formatGs(item.unitPrice), COL.unit.x, y, {
+      width: COL.unit.width,
+      align: "right",
+    });
+    pdf.text(formatGs(item.amount), COL.total.x, y, {
+      width: COL.total.width,
+      align: "right",
+    });
+    y += h + 4;
+
+    pdf.fillColor(MUTED).fontSize(8);
+    for (const note of item.notes) {
+      ensureSpace(12);
+      pdf.text(note, COL.desc.x + 10, y, { width: COL.desc.width - 10 });
+      y += 12;
+    }
+    for (const unit of item.units) {
+      const ph = pdf.heightOfString(unit.label, { width: COL.desc.width - 10 });
+      ensureSpace(ph + 2);
+      pdf.text(unit.label, COL.desc.x + 10, y, { width: COL.desc.width - 10 });
+      pdf.text(`+ ${formatGs(unit.price)}`, COL.total.x, y, {
+        width: COL.total.width,
+        align: "right",
+      });
+      y += ph + 2;
+    }
+    y += 4;
+  }
+  rule();
+
+  // ----- Totales -----
+  for (const row of receipt.totals) amountRow(row);
+  y += 6;
+
+  // ----- Pagos -----
+  ensureSpace(30);
+  pdf.font("Helvetica-Bold").fontSize(10).fillColor("black");
+  pdf.text("Pagos", MARGIN, y);
+  y += 16;
+  if (receipt.payments.length === 0) {
+    pdf.font("Helvetica").fontSize(9).fillColor(MUTED);
+    pdf.text("Sin pagos registrados", MARGIN, y);
+    y += 14;
+  }
+  for (const p of receipt.payments) {
+    const label = `${formatDateTime(p.paidAt)} · ${p.detail}`;
+    ensureSpace(14);
+    pdf.font("Helvetica").fontSize(9).fillColor("black");
+    pdf.text(label, MARGIN, y, { width: COL.total.x - MARGIN - 10 });
+    pdf.text(formatGs(p.amount), COL.total.x, y, {
+      width: COL.total.width,
+      align: "right",
+    });
+    y += 14;
+  }
+  y += 4;
+  amountRow({ label: "Total pagado", amount: receipt.paidTotal });
+  amountRow({
+    label: receipt.balance >= 0 ? "Saldo pendiente" : "Saldo a favor",
+    amount: Math.abs(receipt.balance),
+    bold: true,
+  });
+
+  // ----- Pie -----
+  if (store.receiptFooter) {
+    y += 12;
+    ensureSpace(20);
+    pdf.font("Helvetica-Oblique").fontSize(9).fillColor(MUTED);
+    pdf.text(store.receiptFooter, MARGIN, y, {
+      width: CONTENT_WIDTH,
+      align: "center",
+    });
+  }
+
+  pdf.end();
+  return done;
+}
@@ -0,0 +1,244 @@
+import { Prisma } from "@prisma/client";
+import { transitionOrder } from "@/lib/orderStatus";
+import { reverseSellerEarnings } from "@/lib/commissions";
+
+type Tx = Prisma.TransactionClient;
+
+export type RefundRejection =
+  | "ORDER_NOT_FOUND"
+  | "ORDER_CANCELLED"
+  | "INVALID_ITEMS"
+  | "AMOUNT_EXCEEDS_PAID"
+  | "NOTHING_TO_REFUND";
+
+export type RefundItemIssue = {
+  orderItemId: string;
+  requested: number;
+  refundable: number; // 0 si el ítem no es de este pedido
+};
+
+/** Se lanza cuando el reembolso pedido no es posible */
+export class RefundError extends Error {
+  readonly reason: RefundRejection;
+  readonly items?: RefundItemIssue[];
+  readonly refundable?: number;
+
+  constructor(
+    reason: RefundRejection,
+    extra: { items?: RefundItemIssue[]; refundable?: number } = {}
+  ) {
+    super(reason);
+    this.name = "RefundError";
+    this.reason = reason;
+    this.items = extra.items;
+    this.refundable = extra.refundable;
+  }
+}
+
+export type RefundItemInput = { orderItemId: string; quantity: number };
+
+/**
+ * Devuelve dinero y/o unidades de un pedido.
+ *  - items: unidades devueltas; vuelven al stock si restock y el pedido
+ *    todavía las tenía reservadas.
+ *  - amount: Gs a devolver (por defecto, precio × unidades devueltas,
+ *    limitado a lo cobrado). Se registra un EXPENSE por cada pago afectado,
+ *    enlazado al ingreso original (reversalOf), del más reciente al más viejo.
+ */
+export async function refundOrder(
+  tx: Tx,
+  params: {
+    orderId: string;
+    reason: string;
+    items?: RefundItemInput[];
+    amount?: number;
+    restock?: boolean;
+    createdById: string;
+  }
+) {
+  const { orderId } = params;
+
+  // Bloqueamos el pedido: dos reembolsos simultáneos no deben pasar lo cobrado
+  await tx.$executeRaw`SELECT 1 FROM "Order" WHERE "id" = ${orderId} FOR UPDATE`;
+  const order = await tx.order.findUnique({
+    where: { id: orderId },
+    select: {
+      id: true,
+      userId: true,
+      status: true,
+      stockReservedAt: true,
+      stockReleasedAt: true,
+      items: {
+        select: {
+          id: true,
+          variantId: true,
+          price: true,
+          quantity: true,
+          refundedQuantity: true,
+          backorderedQuantity: true,
+        },
+      },
+      payments: {
+        where: { voidedAt: null },
+        orderBy: { paidAt: "desc" },
+        select: {
+          id: true,
+          amount: true,
+          refundedAmount: true,
+          transactionId: true,
+        },
+      },
+    },
+  });
+  if (!order) throw new RefundError("ORDER_NOT_FOUND");
+
+  // Agrupar por ítem (el mismo id puede venir repetido)
+  const requested = new Map<string, number>();
+  for (const it of params.items ?? []) {
+    requested.set(it.orderItemId, (requested.get(it.orderItemId) ?? 0) + it.quantity);
+  }
+  if (requested.size > 0 && order.status === "CANCELLED") {
+    // El stock de un pedido cancelado ya se liberó completo
+    throw new RefundError("ORDER_CANCELLED");
+  }
+
+  const issues: RefundItemIssue[] = [];
+  let itemsValue = 0;
+  for (const [orderItemId, qty] of requested) {
+    const item = order.items.find((i) => i.id === orderItemId);
+    const refundable = item ? item.quantity - item.refundedQuantity : 0;
+    if (qty > refundable) issues.push({ orderItemId, requested: qty, refundable });
+    else itemsValue += item!.price * qty;
+  }
+  if (issues.length > 0) throw new RefundError("INVALID_ITEMS", { items: issues });
+
+  const refundable = order.payments.reduce(
+    (sum, p) => sum + p.amount - p.refundedAmount,
+    0
+  );
+  const amount = params.amount ?? Math.min(itemsValue, refundable);
+  if (amount > refundable) {
+    throw new RefundError("AMOUNT_EXCEEDS_PAID", { refundable });
+  }
+  if (amount === 0 && requested.size === 0) {
+    throw new RefundError("NOTHING_TO_REFUND", { refundable });
+  }
+
+  const stockHeld = !!order.stockReservedAt && !order.stockReleasedAt;
+  const restocked = (params.restock ?? true) && stockHeld && requested.size > 0;
+
+  const refund = await tx.orderRefund.create({
+    data: {
+      orderId,
+      amount,
+      reason: params.reason,
+      restocked,
+      createdById: params.createdById,
+      items: {
+        create: [...requested].map(([orderItemId, quantity]) => ({
+          orderItemId,
+          quantity,
+        })),
+      },
+    },
+  });
+
+  for (const [orderItemId, qty] of requested) {
+    const item = order.items.find((i) => i.id === orderItemId)!;
+    // Primero se descuentan unidades encargadas: ésas no salieron del stock
+    const unordered = Math.min(qty, item.backorderedQuantity);
+    await tx.orderItem.update({
+      where: { id: orderItemId },
+      data: {
+        refundedQuantity: { increment: qty },
+        backorderedQuantity: { decrement: unordered },
+      },
+    });
+    if (restocked && item.variantId && qty > unordered) {
+      await tx.productVariant.updateMany({
+        where: { id: item.variantId },
+        data: { stock: { increment: qty - unordered } },
+      });
+    }
+    // Si ya se acreditó al vendedor, se le descuenta
+    await reverseSellerEarnings(tx, orderItemId, qty);
+  }
+
+  // Egresos compensatorios, enlazados a cada ingreso original
+  let remaining = amount;
+  for (const payment of order.payments) {
+    if (remaining === 0) break;
+    const take = Math.min(payment.amount - payment.refundedAmount, remaining);
+    if (take <= 0) continue;
+    remaining -= take;
+
+    await tx.orderPayment.update({
+      where: { id: payment.id },
+      data: { refundedAmount: { increment: take } },
+    });
+    await tx.transaction.create({
+      data: {
+        userId: order.userId || params.createdById,
+        type: "EXPENSE",
+        amount: take,
+        description: `Reembolso del pedido #${order.id.slice(-8)}`,
+        category: "reembolso",
+        occurredAt: new Date(),
+        reversalOfId: payment.transactionId,
+        refundId: refund.id,
+      },
+    });
+  }
+
+  if (amount > 0) {
+    await tx.order.update({
+      where: { id: orderId },
+      data: { refundedTotal: { increment: amount } },
+    });
+  }
+
+  return tx.orderRefund.findUniqueOrThrow({
+    where: { id: refund.id },
+    include: { items: true, transactions: true },
+  });
+}
+
+/**
+ * Cancela el pedido (libera el stock reservado vía transitionOrder) y, si
+ * se pide, devuelve todo lo cobrado que no se haya reembolsado antes.
+ */
+export async function cancelOrder(
+  tx: Tx,
+  params: {
+    orderId: string;
+    reason: string;
+    refund: boolean;
+    createdById: string;
+  }
+) {
+  await transitionOrder(tx, {
+    orderId: params.orderId,
+    to: "CANCELLED",
+    changedById: params.createdById,
+    reason: params.reason,
+  });
+
+  if (!params.refund) return null;
+
+  const payments = await tx.orderPayment.findMany({
+    where: { orderId: params.orderId, voidedAt: null },
+    select: { amount: true, refundedAmount: true },
+  });
+  const refundable = payments.reduce(
+    (sum, p) => sum + p.amount - p.refundedAmount,
+    0
+  );
+  if (refundable === 0) return null;
+
+  return refundOrder(tx, {
+    orderId: params.orderId,
+    reason: params.reason,
+    amount: refundable,
+    createdById: params.createdById,
+  });
+}
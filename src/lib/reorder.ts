@@ -0,0 +1,169 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import { allowsBackorder } from "@/lib/backorders";
+import { effectivePrice, lineTitle } from "@/lib/pricing";
+import {
+  PersonalizationInput,
+  loadPersonalizationCatalog,
+  pricePersonalization,
+} from "@/lib/personalization";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export type ReorderLine = {
+  productId: string;
+  variantId: string;
+  qty: number;
+  title: string;
+  variantName: string;
+  unitPrice: number; // precio vigente
+  imageUrl: string;
+  backorder: boolean; // sin stock suficiente: queda encargado
+  personalization: PersonalizationInput[];
+};
+
+export type ReorderChange = {
+  orderItemId: string;
+  title: string;
+  change:
+    | "UNAVAILABLE" // el producto o el talle ya no existen
+    | "OUT_OF_STOCK"
+    | "QTY_REDUCED"
+    | "BACKORDER"
+    | "PRICE_CHANGED"
+    | "PERSONALIZATION_REMOVED"; // opciones que ya no se ofrecen
+  from?: number;
+  to?: number;
+};
+
+/**
+ * Arma un carrito con las líneas de un pedido anterior (sin las unidades
+ * devueltas) contra el catálogo actual: la variante tiene que existir
+ * (si se borró, se busca otra del producto con el mismo talle), la
+ * cantidad se limita al stock salvo que admita encargo, el precio es el
+ * vigente y se quitan las personalizaciones que ya no se ofrecen. Cada
+ * diferencia con el pedido original se informa en `changes`.
+ */
+export async function buildReorderCart(db: Db, orderId: string) {
+  const items = await db.orderItem.findMany({
+    where: { orderId },
+    select: {
+      id: true,
+      productId: true,
+      variantId: true,
+      variantName: true,
+      title: true,
+      price: true,
+      quantity: true,
+      refundedQuantity: true,
+      personalizations: {
+        orderBy: { unitIndex: "asc" },
+        select: { unitIndex: true, name: true, number: true, patches: true },
+      },
+    },
+  });
+  const products = await db.product.findMany({
+    where: { id: { in: items.map((it) => it.productId) } },
+    select: {
+      id: true,
+      title: true,
+      basePrice: true,
+      imageUrl: true,
+      league: true,
+      quality: true,
+      kit: true,
+      allowBackorder: true,
+      ProductVariant: {
+        select: {
+          id: true,
+          name: true,
+          price: true,
+          stock: true,
+          imageUrl: true,
+          allowBackorder: true,
+        },
+      },
+    },
+  });
+  const catalog = await loadPersonalizationCatalog(db);
+
+  const lines: ReorderLine[] = [];
+  const changes: ReorderChange[] = [];
+  for (const item of items) {
+    const wanted = item.quantity - item.refundedQuantity;
+    if (wanted <= 0) continue;
+    const note = (change: ReorderChange["change"], extra = {}) =>
+      changes.push({ orderItemId: item.id, title: item.title, change, ...extra });
+
+    const product = products.find((p) => p.id === item.productId);
+    const variant =
+      product?.ProductVariant.find((v) => v.id === item.variantId) ??
+      product?.ProductVariant.find((v) => v.name === item.variantName);
+    if (!product || !variant) {
+      note("UNAVAILABLE");
+      continue;
+    }
+
+    // Otra línea del mismo carrito ya puede haber tomado stock de la variante
+    const taken = lines
+      .filter((l) => l.variantId === variant.id)
+      .reduce((sum, l) => sum + l.qty, 0);
+    const available = Math.max(0, variant.stock - taken);
+    const backorder = wanted > available && allowsBackorder(variant, product);
+    const qty = backorder ? wanted : Math.min(wanted, available);
+    if (qty === 0) {
+      note("OUT_OF_STOCK");
+      continue;
+    }
+    if (backorder) note("BACKORDER", { from: available, to: wanted });
+    else if (qty < wanted) note("QTY_REDUCED", { from: wanted, to: qty });
+
+    const unitPrice = effectivePrice(variant, product);
+    if (unitPrice !== item.price) {
+      note("PRICE_CHANGED", { from: item.price, to: unitPrice });
+    }
+
+    // Personalización: una entrada por unidad, sin lo que ya no se ofrece
+    const units: PersonalizationInput[] = Array.from({ length: qty }, () => ({
+      patches: [],
+    }));
+    for (const p of item.personalizations) {
+      if (p.unitIndex >= qty) continue;
+      units[p.unitIndex] = {
+        name: p.name ?? undefined,
+        number: p.number ?? undefined,
+        patches: p.patches,
+      };
+    }
+    const { issues } = pricePersonalization(units, product, catalog);
+    for (const issue of issues) {
+      const unit = units[issue.unitIndex];
+      if (issue.code === "NAME") unit.name = undefined;
+      else if (issue.code === "NUMBER") unit.number = undefined;
+      else unit.patches = unit.patches.filter((c) => c !== issue.code);
+    }
+    if (issues.length > 0) note("PERSONALIZATION_REMOVED");
+    // Sin unidades personalizadas al final, el arreglo va vacío
+    while (
+      units.length > 0 &&
+      !units.at(-1)!.name &&
+      units.at(-1)!.number === undefined &&
+      units.at(-1)!.patches.length === 0
+    ) {
+      units.pop();
+    }
+
+    lines.push({
+      productId: product.id,
+      variantId: variant.id,
+      qty,
+      title: lineTitle(product.title, variant.name),
+      variantName: variant.name,
+      unitPrice,
+      imageUrl: variant.imageUrl || product.imageUrl,
+      backorder,
+      personalization: units,
+    });
+  }
+
+  return { lines, changes };
+}
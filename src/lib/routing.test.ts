@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { haversineKm } from "@/lib/geo";
+import { MAPS_MAX_WAYPOINTS, mapsDirectionsUrls, solveRoute } from "@/lib/routing";
+
+const depot = { lat: -25.3, lng: -57.6 };
+// Puntos sobre una línea hacia el este, cada ~1 km
+const east = (km: number) => ({ lat: -25.3, lng: -57.6 + km / 100 });
+
+function routeKm(order: number[], points: typeof depot[], roundTrip: boolean) {
+  const path = [depot, ...order.map((i) => points[i]), ...(roundTrip ? [depot] : [])];
+  return path.slice(1).reduce((sum, p, i) => sum + haversineKm(path[i], p), 0);
+}
+
+function permutations(items: number[]): number[][] {
+  if (items.length <= 1) return [items];
+  return items.flatMap((x, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map((rest) => [x, ...rest])
+  );
+}
+
+describe("solveRoute", () => {
+  it("con menos de dos puntos no reordena", () => {
+    expect(solveRoute(depot, [], false)).toEqual([]);
+    expect(solveRoute(depot, [east(3)], true)).toEqual([0]);
+  });
+
+  it("visita en línea recta del más cercano al más lejano", () => {
+    const points = [east(3), east(1), east(4), east(2)];
+    expect(solveRoute(depot, points, false)).toEqual([1, 3, 0, 2]);
+  });
+
+  it("devuelve cada punto una sola vez", () => {
+    const points = [
+      east(5),
+      { lat: -25.28, lng: -57.58 },
+      east(1),
+      { lat: -25.32, lng: -57.55 },
+      east(2),
+    ];
+    const order = solveRoute(depot, points, true);
+    expect([...order].sort()).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it("en un caso chico llega al recorrido más corto", () => {
+    // Cuadrado al norte del depósito con una parada en el medio; se
+    // compara contra todos los órdenes posibles
+    const points = [
+      { lat: -25.29, lng: -57.6 },
+      { lat: -25.29, lng: -57.59 },
+      { lat: -25.28, lng: -57.6 },
+      { lat: -25.28, lng: -57.59 },
+      { lat: -25.285, lng: -57.585 },
+    ];
+    const best = Math.min(...permutations([0, 1, 2, 3, 4]).map((o) => routeKm(o, points, true)));
+    expect(routeKm(solveRoute(depot, points, true), points, true)).toBeCloseTo(best, 6);
+  });
+});
+
+describe("mapsDirectionsUrls", () => {
+  it("un solo link si entran todas las paradas", () => {
+    const urls = mapsDirectionsUrls(depot, [east(1), east(2)], true);
+    expect(urls).toEqual([
+      "https://www.google.com/maps/dir/-25.300000,-57.600000/-25.300000,-57.590000/-25.300000,-57.580000/-25.300000,-57.600000",
+    ]);
+  });
+
+  it("parte los recorridos largos y cada tramo sigue del anterior", () => {
+    const stops = Array.from({ length: MAPS_MAX_WAYPOINTS + 3 }, (_, i) => east(i + 1));
+    const urls = mapsDirectionsUrls(depot, stops, false);
+    expect(urls).toHaveLength(2);
+    const points = urls.map((u) => u.replace("https://www.google.com/maps/dir/", "").split("/"));
+    expect(points[0]).toHaveLength(MAPS_MAX_WAYPOINTS + 2);
+    expect(points[1][0]).toBe(points[0].at(-1));
+    expect(points[1].at(-1)).toBe("-25.300000,-57.480000");
+  });
+});
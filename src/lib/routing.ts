@@ -0,0 +1,128 @@
+import { LatLng, haversineKm } from "@/lib/geo";
+
+// Velocidad promedio en ciudad para estimar horarios de llegada
+export const DELIVERY_SPEED_KMH = Number(process.env.DELIVERY_SPEED_KMH || 25);
+
+const MAX_2OPT_PASSES = 50;
+
+/**
+ * Orden de visita de los puntos saliendo del depósito: vecino más cercano
+ * y luego 2-opt hasta que ningún cruce mejore la distancia. Distancias en
+ * línea recta (haversine), sin APIs externas. Si roundTrip, el recorrido
+ * vuelve al depósito y eso cuenta al optimizar.
+ * Devuelve los índices de `points` en el orden sugerido.
+ */
+export function solveRoute(
+  depot: LatLng,
+  points: LatLng[],
+  roundTrip: boolean
+): number[] {
+  if (points.length < 2) return points.map((_, i) => i);
+
+  // Nodo 0 = depósito, nodo i+1 = points[i]
+  const nodes = [depot, ...points];
+  const dist = nodes.map((a) => nodes.map((b) => haversineKm(a, b)));
+
+  // ----- Vecino más cercano -----
+  const path = [0];
+  const pending = new Set(points.map((_, i) => i + 1));
+  while (pending.size > 0) {
+    const last = path[path.length - 1];
+    let next = -1;
+    for (const n of pending) {
+      if (next === -1 || dist[last][n] < dist[last][next]) next = n;
+    }
+    path.push(next);
+    pending.delete(next);
+  }
+
+  // ----- 2-opt: invertir tramos mientras acorte el recorrido -----
+  // El tramo final (último punto → depósito) sólo cuenta si roundTrip
+  const edge = (i: number, j: number | undefined) =>
+    j === undefined ? (roundTrip ? dist[i][0] : 0) : dist[i][j];
+  for (let pass = 0; pass < MAX_2OPT_PASSES; pass++) {
+    let improved = false;
+    for (let i = 1; i < path.length - 1; i++) {
+      for (let k = i + 1; k < path.length; k++) {
+        const a = path[i - 1];
+        const b = path[i];
+        const c = path[k];
+        const d = path[k + 1];
+        const delta = dist[a][c] + edge(b, d) - (dist[a][b] + edge(c, d));
+        if (delta < -1e-9) {
+          path.splice(i, k - i + 1, ...path.slice(i, k + 1).reverse());
+          improved = true;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+
+  return path.slice(1).map((n) => n - 1);
+}
+
+export type RouteLeg = {
+  distanceKm: number; // desde la parada anterior (o el depósito)
+  cumulativeKm: number;
+  eta: Date; // llegada estimada
+};
+
+/**
+ * Distancias y horarios de llegada para un recorrido ya ordenado.
+ * Cada parada suma serviceMinutes (entregar, cobrar) antes de seguir.
+ */
+export function routeLegs(
+  depot: LatLng,
+  stops: LatLng[],
+  opts: { startAt: Date; speedKmh: number; serviceMinutes: number; roundTrip: boolean }
+) {
+  const minutesFor = (km: number) => (km / opts.speedKmh) * 60;
+  let prev = depot;
+  let km = 0;
+  let minutes = 0;
+  const legs: RouteLeg[] = stops.map((stop, i) => {
+    const distanceKm = haversineKm(prev, stop);
+    km += distanceKm;
+    minutes += minutesFor(distanceKm) + (i > 0 ? opts.serviceMinutes : 0);
+    prev = stop;
+    return {
+      distanceKm,
+      cumulativeKm: km,
+      eta: new Date(opts.startAt.getTime() + minutes * 60 * 1000),
+    };
+  });
+
+  const returnKm = opts.roundTrip && stops.length ? haversineKm(prev, depot) : 0;
+  if (stops.length) minutes += opts.serviceMinutes + minutesFor(returnKm);
+  return {
+    legs,
+    returnKm,
+    totalKm: km + returnKm,
+    totalMinutes: Math.round(minutes),
+  };
+}
+
+// Paradas intermedias que Google Maps respeta en un link (en el celular
+// son menos que en la web); los recorridos largos se parten en varios
+export const MAPS_MAX_WAYPOINTS = 9;
+
+/**
+ * Links de Google Maps con el recorrido (se abren en el celular del
+ * repartidor). Cada tramo arranca donde terminó el anterior y lleva como
+ * mucho MAPS_MAX_WAYPOINTS paradas entre el origen y el destino.
+ */
+export function mapsDirectionsUrls(depot: LatLng, stops: LatLng[], roundTrip: boolean) {
+  const points = [depot, ...stops, ...(roundTrip ? [depot] : [])];
+  const perLink = MAPS_MAX_WAYPOINTS + 1; // puntos nuevos por tramo
+  const urls: string[] = [];
+  for (let start = 0; start < points.length - 1; start += perLink) {
+    urls.push(
+      "https://www.google.com/maps/dir/" +
+        points
+          .slice(start, start + perLink + 1)
+          .map((p) => `${p.lat.toFixed(6)},${p.lng.toFixed(6)}`)
+          .join("/")
+    );
+  }
+  return urls;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { normalizeSearch, parseSearch } from "@/lib/search";
+
+describe("normalizeSearch", () => {
+  it("pasa a minúsculas y quita los acentos", () => {
+    expect(normalizeSearch("Cerro PORTEÑO Clásica")).toBe("cerro porteno clasica");
+  });
+});
+
+describe("parseSearch", () => {
+  it("separa los tipos de camiseta de los términos", () => {
+    expect(parseSearch("Cerro suplente 2024")).toEqual({
+      terms: ["cerro", "2024"],
+      kits: ["AWAY"],
+    });
+  });
+
+  it("reconoce sinónimos con acentos y sin repetir tipos", () => {
+    expect(parseSearch("Clásica retro titular local")).toEqual({
+      terms: [],
+      kits: ["RETRO", "HOME"],
+    });
+  });
+
+  it("ignora puntuación y espacios de más", () => {
+    expect(parseSearch("  olimpia,  ¡tercera!  ")).toEqual({
+      terms: ["olimpia"],
+      kits: ["THIRD"],
+    });
+    expect(parseSearch("")).toEqual({ terms: [], kits: [] });
+  });
+
+  it("las propiedades heredadas no son sinónimos", () => {
+    expect(parseSearch("constructor tostring")).toEqual({
+      terms: ["constructor", "tostring"],
+      kits: [],
+    });
+  });
+});
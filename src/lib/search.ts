@@ -0,0 +1,89 @@
+import { KitType, Prisma, PrismaClient } from "@prisma/client";
+import {
+  FacetKey,
+  ProductFilters,
+  productFilterSql,
+} from "@/lib/catalogFilters";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+// Tope de resultados por búsqueda (ya filtrados); el orden distinto de
+// relevancia y la paginación se aplican sobre estos ids
+export const SEARCH_MAX_RESULTS = 500;
+
+// Cómo se nombra cada camiseta en la tienda; se comparan sin acentos
+export const KIT_SYNONYMS: Record<string, KitType> = {
+  titular: "HOME",
+  local: "HOME",
+  suplente: "AWAY",
+  visitante: "AWAY",
+  alternativa: "THIRD",
+  tercera: "THIRD",
+  retro: "RETRO",
+  clasica: "RETRO",
+};
+
+/** Minúsculas y sin acentos, igual que immutable_unaccent en la base */
+export function normalizeSearch(text: string) {
+  return text
+    .normalize("NFD")
+    .replace(/\p{Diacritic}/gu, "")
+    .toLowerCase();
+}
+
+/**
+ * Separa la búsqueda en términos de texto y tipos de camiseta: "cerro
+ * suplente" busca "cerro" entre las camisetas AWAY.
+ */
+export function parseSearch(raw: string) {
+  const words = normalizeSearch(raw).match(/[a-z0-9]+/g) ?? [];
+  const kits = new Set<KitType>();
+  const terms: string[] = [];
+  for (const word of words) {
+    if (Object.hasOwn(KIT_SYNONYMS, word)) kits.add(KIT_SYNONYMS[word]);
+    else terms.push(word);
+  }
+  return { terms, kits: [...kits] };
+}
+
+/**
+ * Busca productos por texto: coincidencia por prefijo en el tsvector
+ * (título, liga/temporada, descripción) o, para tolerar errores de tipeo,
+ * similitud de trigramas contra el título. Los demás filtros del listado
+ * se aplican en la misma consulta (menos `except`, para las facetas), así
+ * el tope corta resultados ya filtrados. `scores` trae los ids ordenados
+ * por relevancia; `total` cuenta todas las coincidencias y `truncated`
+ * avisa que quedaron afuera del tope. null si no hay texto que buscar (la
+ * búsqueda sólo nombraba tipos de camiseta).
+ */
+export async function searchProducts(
+  db: Db,
+  filters: ProductFilters,
+  except?: FacetKey,
+  limit = SEARCH_MAX_RESULTS
+) {
+  const terms = filters.search?.terms ?? [];
+  if (terms.length === 0) return null;
+
+  const tsquery = terms.map((t) => `${t}:*`).join(" & ");
+  const text = terms.join(" ");
+  const rows = await db.$queryRaw<Array<{ id: string; score: number; total: number }>>`
+    SELECT p."id",
+           (ts_rank(p."searchVector", q.query)
+             + word_similarity(q.text, lower("public"."immutable_unaccent"(p."title"))))::float8 AS "score",
+           (count(*) OVER ())::int AS "total"
+    FROM "Product" p,
+         (SELECT to_tsquery('simple', ${tsquery}) AS query, ${text}::text AS text) q
+    WHERE (p."searchVector" @@ q.query
+           OR q.text <% lower("public"."immutable_unaccent"(p."title")))
+      ${productFilterSql(filters, except)}
+    ORDER BY "score" DESC, p."createdAt" DESC
+    LIMIT ${limit}`;
+
+  const total = rows[0]?.total ?? 0;
+  return {
+    scores: new Map(rows.map((r) => [r.id, r.score])),
+    total,
+    truncated: total > rows.length,
+  };
+}
@@ -0,0 +1,50 @@
+import { Prisma, PrismaClient, StoreSettings } from "@prisma/client";
+import { z } from "zod";
+
+type Db = PrismaClient | Prisma.TransactionClient;
+
+export const STORE_SETTINGS_ID = "default";
+
+const optionalText = (max: number) =>
+  z.string().trim().max(max).nullable().default(null);
+
+// PUT reemplaza los datos del local: los campos opcionales que no vienen
+// quedan en null. Los parámetros de negocio (encargos, comisiones) sólo
+// cambian si vienen; si no, se conserva el valor actual (o el de la base)
+export const StoreSettingsSchema = z.object({
+  name: z.string().trim().min(2).max(80),
+  legalName: optionalText(120),
+  ruc: optionalText(20),
+  address: optionalText(200),
+  phone: optionalText(40),
+  email: z.string().trim().email().nullable().default(null),
+  website: optionalText(120),
+  receiptFooter: optionalText(300),
+  backorderLeadDays: z.coerce.number().int().min(1).max(180).optional(),
+  backorderDepositPercent: z.coerce.number().int().min(0).max(100).optional(),
+  sellerCommissionPercent: z.coerce.number().int().min(0).max(100).optional(),
+});
+
+/** Configuración del local; si la fila no existe se usan valores por defecto */
+export async function getStoreSettings(db: Db): Promise<StoreSettings> {
+  const settings = await db.storeSettings.findUnique({
+    where: { id: STORE_SETTINGS_ID },
+  });
+  return (
+    settings ?? {
+      id: STORE_SETTINGS_ID,
+      name: "Hincha Store",
+      legalName: null,
+      ruc: null,
+      address: null,
+      phone: null,
+      email: null,
+      website: null,
+      receiptFooter: null,
+      backorderLeadDays: 15,
+      backorderDepositPercent: 50,
+      sellerCommissionPercent: 0,
+      updatedAt: new Date(0),
+    }
+  );
+}
@@ -0,0 +1,135 @@
+import { Prisma } from "@prisma/client";
+
+type Tx = Prisma.TransactionClient;
+
+// Horas que un pedido PENDING sin pagos mantiene el stock antes de vencer
+// (ver expireStaleOrders). STOCK_RESERVATION_HOURS queda por compatibilidad.
+export const RESERVATION_HOURS = Number(
+  process.env.ORDER_EXPIRY_HOURS || process.env.STOCK_RESERVATION_HOURS || 48
+);
+
+export type StockRequest = {
+  productId: string;
+  variantId: string;
+  qty: number;
+};
+
+export type StockIssue = {
+  productId: string;
+  variantId: string;
+  requested: number;
+  available: number;
+};
+
+/** Se lanza cuando una o más líneas piden más unidades de las disponibles */
+export class StockError extends Error {
+  readonly items: StockIssue[];
+
+  constructor(items: StockIssue[]) {
+    super("OUT_OF_STOCK");
+    this.name = "StockError";
+    this.items = items;
+  }
+}
+
+export function reservationExpiry(from = new Date()): Date {
+  return new Date(from.getTime() + RESERVATION_HOURS * 60 * 60 * 1000);
+}
+
+/**
+ * Descuenta stock de cada variante dentro de la transacción.
+ * El decremento es condicional (stock >= qty), así dos pedidos concurrentes
+ * no pueden llevarse la misma última unidad. Si alguna línea no alcanza,
+ * lanza StockError con el detalle por ítem y la transacción se revierte.
+ */
+export async function reserveStock(tx: Tx, lines: StockRequest[]) {
+  // Agrupamos por variante: el mismo talle puede venir en varias líneas
+  const wanted = new Map<string, StockRequest>();
+  for (const line of lines) {
+    const prev = wanted.get(line.variantId);
+    wanted.set(
+      line.variantId,
+      prev ? { ...prev, qty: prev.qty + line.qty } : { ...line }
+    );
+  }
+
+  const issues: StockIssue[] = [];
+  for (const line of wanted.values()) {
+    const { count } = await tx.productVariant.updateMany({
+      where: { id: line.variantId, stock: { gte: line.qty } },
+      data: { stock: { decrement: line.qty } },
+    });
+    if (count === 0) {
+      const variant = await tx.productVariant.findUnique({
+        where: { id: line.variantId },
+        select: { stock: true },
+      });
+      issues.push({
+        productId: line.productId,
+        variantId: line.variantId,
+        requested: line.qty,
+        available: Math.max(0, variant?.stock ?? 0),
+      });
+    }
+  }
+
+  if (issues.length > 0) throw new StockError(issues);
+}
+
+/** Devuelve unidades puntuales al stock (p.ej. al editar un pedido) */
+export async function restockLines(tx: Tx, lines: StockRequest[]) {
+  for (const line of lines) {
+    if (line.qty <= 0) continue;
+    await tx.productVariant.updateMany({
+      where: { id: line.variantId },
+      data: { stock: { increment: line.qty } },
+    });
+  }
+}
+
+/** Unidades de la línea que salieron del stock y siguen en el pedido */
+export function heldQuantity(item: {
+  quantity: number;
+  refundedQuantity: number;
+  backorderedQuantity: number;
+}) {
+  return item.quantity - item.refundedQuantity - item.backorderedQuantity;
+}
+
+/**
+ * Devuelve al stock las unidades reservadas por un pedido.
+ * Es idempotente: sólo libera si el pedido tenía reserva y no fue liberada.
+ * Retorna true si efectivamente devolvió stock.
+ */
+export async function releaseOrderStock(tx: Tx, orderId: string) {
+  const { count } = await tx.order.updateMany({
+    where: {
+      id: orderId,
+      stockReservedAt: { not: null },
+      stockReleasedAt: null,
+    },
+    data: { stockReleasedAt: new Date() },
+  });
+  if (count === 0) return false;
+
+  // Las unidades reembolsadas volvieron al stock en su momento y las
+  // encargadas nunca salieron de él
+  const items = await tx.orderItem.findMany({
+    where: { orderId, variantId: { not: null } },
+    select: {
+      variantId: true,
+      quantity: true,
+      refundedQuantity: true,
+      backorderedQuantity: true,
+    },
+  });
+  for (const it of items) {
+    const held = heldQuantity(it);
+    if (held <= 0) continue;
+    await tx.productVariant.updateMany({
+      where: { id: it.variantId! },
+      data: { stock: { increment: held } },
+    });
+  }
+  return true;
+}
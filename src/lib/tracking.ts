@@ -0,0 +1,17 @@
+import { randomInt } from "crypto";
+
+// Sin 0/O, 1/I/L para que se pueda dictar por teléfono sin confusiones
+const ALPHABET = "23456789ABCDEFGHJKMNPQRSTUVWXYZ";
+const LENGTH = 12; // ~59 bits: no se puede adivinar por fuerza bruta
+
+/** Código público de seguimiento para pedidos (también los de invitados) */
+export function generateTrackingCode(): string {
+  let code = "";
+  for (let i = 0; i < LENGTH; i++) code += ALPHABET[randomInt(ALPHABET.length)];
+  return code;
+}
+
+/** Acepta el código como lo tipea el cliente: minúsculas, espacios o guiones */
+export function normalizeTrackingCode(input: string): string {
+  return input.replace(/[\s-]/g, "").toUpperCase();
+}
@@ -0,0 +1,124 @@
+import { OrderStatus } from "@prisma/client";
+import { formatGs } from "@/lib/format";
+import { summarizePayments } from "@/lib/payments";
+import { normalizePhone } from "@/lib/phone";
+import { OrderDocument, orderNumber } from "@/lib/receipts";
+
+// Marcadores disponibles en las plantillas ({{nombre}}, {{saldo}}...)
+export const TEMPLATE_PLACEHOLDERS = {
+  nombre: "Nombre del cliente",
+  pedido: "Número de pedido (#ABC12345)",
+  codigo: "Código de seguimiento",
+  seguimiento: "Link de seguimiento (o el código si no hay STOREFRONT_URL)",
+  tienda: "Nombre del local",
+  estado: "Estado actual del pedido",
+  items: "Listado de camisetas con talle y personalización",
+  subtotal: "Subtotal de camisetas",
+  extras: "Total de personalización",
+  descuento: "Total de descuentos",
+  envio: "Costo de envío",
+  total: "Total del pedido",
+  pagado: "Total pagado",
+  saldo: "Saldo pendiente",
+  entrega: "Dirección de entrega o aviso de retiro en el local",
+} as const;
+
+export type TemplatePlaceholder = keyof typeof TEMPLATE_PLACEHOLDERS;
+
+// Plantilla sugerida según el estado del pedido
+export const STATUS_TEMPLATE: Partial<Record<OrderStatus, string>> = {
+  CONFIRMED: "ORDER_CONFIRMED",
+  READY: "ORDER_READY",
+};
+export const BALANCE_REMINDER_TEMPLATE = "BALANCE_REMINDER";
+
+const STATUS_LABEL: Record<OrderStatus, string> = {
+  PENDING: "pendiente",
+  CONFIRMED: "confirmado",
+  PREPARING: "en preparación",
+  READY: "listo",
+  DELIVERED: "entregado",
+  CANCELLED: "cancelado",
+};
+
+const PLACEHOLDER_RE = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Marcadores usados en el texto que no existen (para validar al guardar) */
+export function unknownPlaceholders(body: string): string[] {
+  const unknown = new Set<string>();
+  for (const [, key] of body.matchAll(PLACEHOLDER_RE)) {
+    if (!Object.hasOwn(TEMPLATE_PLACEHOLDERS, key)) unknown.add(key);
+  }
+  return [...unknown];
+}
+
+function trackingLink(code: string) {
+  const base = process.env.STOREFRONT_URL?.replace(/\/+$/, "");
+  return base ? `${base}/seguimiento/${code}` : code;
+}
+
+function itemLines(order: OrderDocument["order"]) {
+  return order.items
+    .map((it) => {
+      const lines = [`• ${it.quantity}x ${it.title}`];
+      for (const p of it.personalizations) {
+        const parts = [
+          p.name,
+          p.number !== null ? `#${p.number}` : null,
+          ...p.patches,
+        ].filter(Boolean);
+        lines.push(`   ↳ ${parts.join(" · ")}`);
+      }
+      return lines.join("\n");
+    })
+    .join("\n");
+}
+
+/** Valores de cada marcador para un pedido */
+export function buildTemplateContext({
+  order,
+  store,
+}: OrderDocument): Record<TemplatePlaceholder, string> {
+  const { paidTotal, balance } = summarizePayments(
+    order.totalPrice,
+    order.payments
+  );
+  const discountTotal = order.discounts.reduce((s, d) => s + d.amount, 0);
+
+  return {
+    nombre: order.name,
+    pedido: `#${orderNumber(order.id)}`,
+    codigo: order.trackingCode,
+    seguimiento: trackingLink(order.trackingCode),
+    tienda: store.name,
+    estado: STATUS_LABEL[order.status],
+    items: itemLines(order),
+    subtotal: formatGs(order.subtotal),
+    extras: formatGs(order.extrasTotal),
+    descuento: formatGs(discountTotal),
+    envio: formatGs(order.deliveryFee),
+    total: formatGs(order.totalPrice),
+    pagado: formatGs(paidTotal),
+    saldo: formatGs(Math.max(balance, 0)),
+    entrega:
+      order.deliveryMethod === "PICKUP"
+        ? `Podés retirarlo en el local${store.address ? `: ${store.address}` : ""}.`
+        : `Lo enviamos a: ${order.address}`,
+  };
+}
+
+/** Reemplaza {{marcador}}; los desconocidos quedan tal cual */
+export function renderTemplate(
+  body: string,
+  context: Record<string, string>
+): string {
+  return body.replace(PLACEHOLDER_RE, (match, key: string) =>
+    Object.hasOwn(context, key) ? context[key] : match
+  );
+}
+
+/** Link wa.me que abre el chat con el mensaje ya escrito */
+export function whatsappLink(phone: string, text?: string): string {
+  const url = `https://wa.me/${normalizePhone(phone)}`;
+  return text ? `${url}?text=${encodeURIComponent(text)}` : url;
+}